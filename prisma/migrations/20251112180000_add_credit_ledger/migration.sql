@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "credit_transactions" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "operation" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "balance_after" INTEGER NOT NULL,
+    "model" TEXT,
+    "prompt_tokens" INTEGER,
+    "completion_tokens" INTEGER,
+    "total_tokens" INTEGER,
+    "provider_credits" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "credit_transactions_user_id_created_at_idx" ON "credit_transactions"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "credit_transactions" ADD CONSTRAINT "credit_transactions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Grant the free-plan starting balance to existing users that never received credits
+UPDATE "users" SET "available_credits" = 100 WHERE "available_credits" = 0 AND "plan" = 'free';
@@ -0,0 +1,46 @@
+/*
+  Warnings:
+
+  - The `chat_history` column on the `documents` table is replaced by the `chat_messages` table.
+    Existing entries are converted below before the column is dropped.
+
+*/
+-- CreateTable
+CREATE TABLE "chat_messages" (
+    "id" SERIAL NOT NULL,
+    "document_id" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "mode" TEXT,
+    "model" TEXT,
+    "prompt_tokens" INTEGER,
+    "completion_tokens" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chat_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_messages_document_id_created_at_idx" ON "chat_messages"("document_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "chat_messages" ADD CONSTRAINT "chat_messages_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Convert "User: "/"AI: " prefixed entries; unprefixed entries fall back to their position
+INSERT INTO "chat_messages" ("document_id", "role", "content", "created_at")
+SELECT
+    d."id",
+    CASE
+        WHEN h."entry" LIKE 'User: %' THEN 'user'
+        WHEN h."entry" LIKE 'AI: %' THEN 'ai'
+        WHEN h."position" % 2 = 1 THEN 'user'
+        ELSE 'ai'
+    END,
+    regexp_replace(h."entry", '^(User|AI): ', ''),
+    d."updated_at" - ((cardinality(d."chat_history") - h."position") * INTERVAL '1 millisecond')
+FROM "documents" d
+CROSS JOIN LATERAL unnest(d."chat_history") WITH ORDINALITY AS h("entry", "position")
+ORDER BY d."id", h."position";
+
+-- AlterTable
+ALTER TABLE "documents" DROP COLUMN "chat_history";
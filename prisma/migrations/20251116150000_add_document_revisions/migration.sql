@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "document_revisions" (
+    "id" SERIAL NOT NULL,
+    "document_id" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "restored_from_version" INTEGER,
+    "created_by" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_revisions_document_id_version_key" ON "document_revisions"("document_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "document_revisions" ADD CONSTRAINT "document_revisions_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the current content of every existing document as its first revision
+INSERT INTO "document_revisions" ("document_id", "version", "title", "content", "source", "created_by", "created_at")
+SELECT "id", 1, "title", "content", 'create', "created_by", "updated_at"
+FROM "documents";
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "document_collaborators" (
+    "id" SERIAL NOT NULL,
+    "document_id" INTEGER NOT NULL,
+    "user_id" INTEGER,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "invited_by" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_collaborators_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "document_share_links" (
+    "id" SERIAL NOT NULL,
+    "document_id" INTEGER NOT NULL,
+    "token" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "created_by" INTEGER,
+    "expires_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "document_collaborators_user_id_idx" ON "document_collaborators"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_collaborators_document_id_email_key" ON "document_collaborators"("document_id", "email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_share_links_token_key" ON "document_share_links"("token");
+
+-- AddForeignKey
+ALTER TABLE "document_collaborators" ADD CONSTRAINT "document_collaborators_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "document_collaborators" ADD CONSTRAINT "document_collaborators_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "document_share_links" ADD CONSTRAINT "document_share_links_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
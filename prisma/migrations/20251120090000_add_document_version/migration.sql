@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
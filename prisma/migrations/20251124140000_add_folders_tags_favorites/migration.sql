@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "folder_id" INTEGER,
+ADD COLUMN     "is_favorite" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "folders" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "parent_id" INTEGER,
+    "owner_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "folders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "folders_owner_id_parent_id_idx" ON "folders"("owner_id", "parent_id");
+
+-- CreateIndex
+CREATE INDEX "documents_folder_id_idx" ON "documents"("folder_id");
+
+-- CreateIndex
+CREATE INDEX "documents_tags_idx" ON "documents" USING GIN ("tags");
+
+-- AddForeignKey
+ALTER TABLE "documents" ADD CONSTRAINT "documents_folder_id_fkey" FOREIGN KEY ("folder_id") REFERENCES "folders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "folders" ADD CONSTRAINT "folders_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "folders" ADD CONSTRAINT "folders_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "folders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
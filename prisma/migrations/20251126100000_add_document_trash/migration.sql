@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "documents_created_by_deleted_at_idx" ON "documents"("created_by", "deleted_at");
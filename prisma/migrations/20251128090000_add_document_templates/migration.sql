@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "document_templates" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "category" TEXT,
+    "content" TEXT NOT NULL,
+    "variables" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "is_system" BOOLEAN NOT NULL DEFAULT false,
+    "owner_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "document_templates_is_system_idx" ON "document_templates"("is_system");
+
+-- CreateIndex
+CREATE INDEX "document_templates_owner_id_idx" ON "document_templates"("owner_id");
+
+-- AddForeignKey
+ALTER TABLE "document_templates" ADD CONSTRAINT "document_templates_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "intent_classifications" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "document_id" INTEGER,
+    "prompt" TEXT NOT NULL,
+    "intent" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "model" TEXT,
+    "fallback_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "intent_classifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "intent_classifications_user_id_created_at_idx" ON "intent_classifications"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "intent_classifications_source_created_at_idx" ON "intent_classifications"("source", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "intent_classifications" ADD CONSTRAINT "intent_classifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "intent_classifications" ADD CONSTRAINT "intent_classifications_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "proofreading_dismissals" (
+    "id" SERIAL NOT NULL,
+    "document_id" INTEGER NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "dismissed_by" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proofreading_dismissals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proofreading_dismissals_document_id_rule_id_key" ON "proofreading_dismissals"("document_id", "rule_id");
+
+-- AddForeignKey
+ALTER TABLE "proofreading_dismissals" ADD CONSTRAINT "proofreading_dismissals_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Index the text of the content, not its tag and attribute names
+DROP INDEX "documents_search_vector_idx";
+
+ALTER TABLE "documents" DROP COLUMN "search_vector";
+
+ALTER TABLE "documents" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', regexp_replace(regexp_replace(coalesce("content", ''), '<[^>]*>', ' ', 'g'), '&(#[0-9]+|[a-zA-Z]+);', ' ', 'g')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "documents_search_vector_idx" ON "documents" USING GIN ("search_vector");
@@ -8,6 +8,8 @@ import morgan from "morgan";
 import AppRoot from "./routes"
 import session from "express-session";
 import passport from "./utils/passport";
+import { attachCollaborationServer } from "./services/collaboration.service";
+import { startTrashPurgeJob } from "./services/trash.service";
 
 dotenv.config();
 
@@ -34,8 +36,8 @@ app.use(
     origin: ["http://localhost:5174", "https://early-access.scripelle.com", "http://localhost:8080"],
     credentials: true,
     methods: "GET,POST,PUT,DELETE,OPTIONS",
-    allowedHeaders: "Content-Type,Authorization",
-    exposedHeaders: "Authorization",
+    allowedHeaders: "Content-Type,Authorization,If-Match",
+    exposedHeaders: "Authorization,ETag",
   })
 );
 
@@ -62,6 +64,9 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
   res.status(500).json({ message: "Internal Server Error" });
 });
 
-app.listen(PORT, "0.0.0.0", () => {
+const server = app.listen(PORT, "0.0.0.0", () => {
   console.log(`Server running on http://localhost:${PORT}`);
-});
\ No newline at end of file
+});
+
+attachCollaborationServer(server);
+startTrashPurgeJob();
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rows, seed } from './helpers/fakePrisma';
+import { startServer, TestServer, tokenFor } from './helpers/server';
+
+const user = { id: 1, email: 'writer@example.com' };
+
+describe('POST /autocompletion/predict', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    seed({ user: [{ ...user, plan: 'free', availableCredits: 10 }] });
+  });
+
+  it('requires a signed-in user', async () => {
+    const response = await server.request('POST', '/autocompletion/predict', { body: { text: 'The meeting is' } });
+
+    assert.equal(response.status, 401);
+    assert.equal(rows('creditTransaction').length, 0);
+  });
+
+  it('rejects oversized input and refunds the charge', async () => {
+    const response = await server.request('POST', '/autocompletion/predict', {
+      token: tokenFor(user),
+      body: { text: 'The meeting is', context: 'x'.repeat(10000) }
+    });
+
+    assert.equal(response.status, 400);
+    assert.equal(rows('user')[0].availableCredits, 10);
+  });
+
+  it('charges signed-in users and records the model usage', async () => {
+    const response = await server.request('POST', '/autocompletion/predict', {
+      token: tokenFor(user),
+      body: { text: 'The meeting is' }
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(typeof response.body.data.prediction, 'string');
+    assert.equal(response.body.data.fallback, null);
+    const [debit] = rows('creditTransaction');
+    assert.equal(debit.type, 'debit');
+    assert.equal(typeof debit.model, 'string');
+    assert.ok(debit.totalTokens > 0);
+    assert.ok(rows('user')[0].availableCredits < 10);
+  });
+
+  it('flags offline predictions and refunds them', async () => {
+    process.env.LLM_PROVIDER = 'gemini';
+    process.env.LLM_MAX_RETRIES = '0';
+    const apiKey = process.env.GEMINI_API_KEY;
+    delete process.env.GEMINI_API_KEY;
+
+    try {
+      const response = await server.request('POST', '/autocompletion/predict', {
+        token: tokenFor(user),
+        body: { text: 'The meeting is' }
+      });
+
+      assert.equal(response.status, 200);
+      assert.equal(response.body.data.fallback.offline, true);
+      assert.equal(response.body.data.fallback.requestedProvider, 'gemini');
+      assert.deepEqual(rows('creditTransaction').map((transaction) => transaction.type), ['debit', 'refund']);
+      assert.equal(rows('user')[0].availableCredits, 10);
+    } finally {
+      process.env.LLM_PROVIDER = 'mock';
+      delete process.env.LLM_MAX_RETRIES;
+      if (apiKey !== undefined) {
+        process.env.GEMINI_API_KEY = apiKey;
+      }
+    }
+  });
+});
+
+describe('POST /autocompletion/suggestions', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    seed({
+      user: [{ ...user, plan: 'free', availableCredits: 0 }],
+      documents: [{ id: 1, title: 'Notes', content: '<p>Thank you for your time. Thank you for your help.</p>', version: 1, createdBy: user.id, deletedAt: null, updatedAt: new Date() }]
+    });
+  });
+
+  it('serves the contextual strategy without credits', async () => {
+    const response = await server.request('POST', '/autocompletion/suggestions', {
+      token: tokenFor(user),
+      body: { text: 'Thank you ', strategy: 'contextual' }
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.data.suggestions[0].text, 'for your');
+    assert.equal(rows('creditTransaction').length, 0);
+  });
+
+  it('still charges for strategies that call the model', async () => {
+    const response = await server.request('POST', '/autocompletion/suggestions', {
+      token: tokenFor(user),
+      body: { text: 'Thank you ', strategy: 'hybrid' }
+    });
+
+    assert.equal(response.status, 402);
+  });
+});
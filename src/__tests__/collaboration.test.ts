@@ -0,0 +1,86 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as encoding from 'lib0/encoding';
+import { seed } from './helpers/fakePrisma';
+import { startServer, TestServer, tokenFor } from './helpers/server';
+import { setXmlFragmentContent } from '../utils/yxml.utils';
+
+const owner = { id: 1, email: 'owner@example.com' };
+const editor = { id: 2, email: 'editor@example.com' };
+const DOCUMENT_ID = 10;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('collaboration access', () => {
+  let server: TestServer;
+  let socket: WebSocket;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    seed({
+      user: [owner, editor].map((user) => ({ ...user, plan: 'free', availableCredits: 100 })),
+      documents: [{ id: DOCUMENT_ID, title: 'Plan', content: '<p>Plan</p>', version: 1, createdBy: owner.id, deletedAt: null, tags: [] }],
+      documentCollaborator: [{ id: 1, documentId: DOCUMENT_ID, userId: editor.id, email: editor.email, role: 'editor' }]
+    });
+
+    socket = new WebSocket(`ws://127.0.0.1:${server.port}/api/v1/collaboration/${DOCUMENT_ID}?token=${tokenFor(editor)}`);
+    await new Promise((resolve, reject) => socket.once('open', resolve).once('error', reject));
+  });
+
+  afterEach(async () => {
+    if (socket.readyState !== WebSocket.CLOSED) {
+      socket.close();
+      await new Promise((resolve) => socket.once('close', resolve));
+    }
+    // Let the room save and tear down before the next test seeds the database
+    await wait(50);
+  });
+
+  // A paragraph typed by the editor, sent the way the y-websocket provider sends updates
+  const typeParagraph = async (text: string) => {
+    const doc = new Y.Doc();
+    setXmlFragmentContent(doc.getXmlFragment('default'), `<p>${text}</p>`);
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, 0);
+    syncProtocol.writeUpdate(encoder, Y.encodeStateAsUpdate(doc));
+    socket.send(encoding.toUint8Array(encoder));
+    await wait(50);
+  };
+
+  const exportedText = async () => (await server.request('GET', `/documents/${DOCUMENT_ID}/export?format=txt`, { token: tokenFor(owner), raw: true })).body;
+
+  const setEditorRole = (role: string) => server.request('PUT', `/documents/${DOCUMENT_ID}/collaborators/1`, { token: tokenFor(owner), body: { role } });
+
+  it('applies edits from editors', async () => {
+    await typeParagraph('Typed by the editor');
+    assert.match(await exportedText(), /Typed by the editor/);
+  });
+
+  it('ignores edits after the editor is downgraded to viewer', async () => {
+    assert.equal((await setEditorRole('viewer')).status, 200);
+    await typeParagraph('Typed after the downgrade');
+
+    assert.equal(socket.readyState, WebSocket.OPEN);
+    assert.doesNotMatch(await exportedText(), /Typed after the downgrade/);
+  });
+
+  it('disconnects collaborators who are removed', { timeout: 5000 }, async () => {
+    const closed = new Promise<number>((resolve) => socket.once('close', resolve));
+
+    const response = await server.request('DELETE', `/documents/${DOCUMENT_ID}/collaborators/1`, { token: tokenFor(owner) });
+
+    assert.equal(response.status, 200);
+    assert.equal(await closed, 4403);
+  });
+});
@@ -0,0 +1,148 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rows, seed } from './helpers/fakePrisma';
+import { startServer, TestServer, tokenFor } from './helpers/server';
+
+const owner = { id: 1, email: 'owner@example.com' };
+const viewer = { id: 2, email: 'viewer@example.com' };
+const commenter = { id: 3, email: 'commenter@example.com' };
+const editor = { id: 4, email: 'editor@example.com' };
+const stranger = { id: 5, email: 'stranger@example.com' };
+
+const DOCUMENT_ID = 10;
+const TRASHED_DOCUMENT_ID = 11;
+
+function seedWorkspace() {
+  seed({
+    user: [owner, viewer, commenter, editor, stranger].map((user) => ({
+      ...user,
+      firstName: 'Test',
+      lastName: 'User',
+      plan: 'free',
+      availableCredits: 100
+    })),
+    documents: [
+      { id: DOCUMENT_ID, title: 'Plan', content: '<p>Quarterly plan</p>', version: 1, createdBy: owner.id, deletedAt: null, tags: [] },
+      { id: TRASHED_DOCUMENT_ID, title: 'Old', content: '<p>Old</p>', version: 1, createdBy: owner.id, deletedAt: new Date(), tags: [] }
+    ],
+    documentCollaborator: [
+      { id: 1, documentId: DOCUMENT_ID, userId: viewer.id, email: viewer.email, role: 'viewer' },
+      { id: 2, documentId: DOCUMENT_ID, userId: commenter.id, email: commenter.email, role: 'commenter' },
+      // Invited by email before the account existed
+      { id: 3, documentId: DOCUMENT_ID, userId: null, email: editor.email, role: 'editor' },
+      { id: 4, documentId: TRASHED_DOCUMENT_ID, userId: editor.id, email: editor.email, role: 'editor' }
+    ]
+  });
+}
+
+describe('document policy', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(seedWorkspace);
+
+  const expectStatus = async (user: { id: number; email: string } | null, method: string, path: string, status: number, body?: any) => {
+    const response = await server.request(method, path, { token: user ? tokenFor(user) : undefined, body });
+    assert.equal(response.status, status, `${method} ${path} as ${user?.email ?? 'anonymous'}: ${JSON.stringify(response.body)}`);
+    return response;
+  };
+
+  describe('documents', () => {
+    it('lets the owner and collaborators read a document and hides it from strangers', async () => {
+      const response = await expectStatus(owner, 'GET', `/documents/${DOCUMENT_ID}`, 200);
+      assert.equal(response.body.data.role, 'owner');
+
+      assert.equal((await expectStatus(viewer, 'GET', `/documents/${DOCUMENT_ID}`, 200)).body.data.role, 'viewer');
+      await expectStatus(stranger, 'GET', `/documents/${DOCUMENT_ID}`, 404);
+      await expectStatus(null, 'GET', `/documents/${DOCUMENT_ID}`, 401);
+    });
+
+    it('answers 404 for missing and trashed documents, even to the owner', async () => {
+      await expectStatus(owner, 'GET', '/documents/999', 404);
+      await expectStatus(owner, 'GET', `/documents/${TRASHED_DOCUMENT_ID}`, 404);
+      await expectStatus(owner, 'GET', '/documents/not-a-number', 404);
+    });
+
+    it('links email invitations to the account on first access', async () => {
+      await expectStatus(editor, 'GET', `/documents/${DOCUMENT_ID}`, 200);
+      assert.equal(rows('documentCollaborator').find((collaborator) => collaborator.id === 3)!.userId, editor.id);
+    });
+
+    it('requires the editor role to update and the owner role to delete', async () => {
+      const update = { title: 'Renamed' };
+
+      await expectStatus(viewer, 'PUT', `/documents/${DOCUMENT_ID}`, 403, update);
+      await expectStatus(commenter, 'PUT', `/documents/${DOCUMENT_ID}`, 403, update);
+      await expectStatus(stranger, 'PUT', `/documents/${DOCUMENT_ID}`, 404, update);
+      await expectStatus(editor, 'PUT', `/documents/${DOCUMENT_ID}`, 200, update);
+      await expectStatus(owner, 'PUT', `/documents/${DOCUMENT_ID}`, 200, update);
+
+      await expectStatus(editor, 'DELETE', `/documents/${DOCUMENT_ID}`, 403);
+      await expectStatus(stranger, 'DELETE', `/documents/${DOCUMENT_ID}`, 404);
+    });
+
+    it('only lets the owner restore from the trash', async () => {
+      await expectStatus(editor, 'POST', `/documents/${TRASHED_DOCUMENT_ID}/restore`, 403);
+      await expectStatus(stranger, 'POST', `/documents/${TRASHED_DOCUMENT_ID}/restore`, 404);
+      // Routes on the trash only match trashed documents
+      await expectStatus(owner, 'POST', `/documents/${DOCUMENT_ID}/restore`, 404);
+      await expectStatus(owner, 'POST', `/documents/${TRASHED_DOCUMENT_ID}/restore`, 200);
+    });
+  });
+
+  describe('chat history', () => {
+    it('lets collaborators read the history and hides it from strangers', async () => {
+      await expectStatus(owner, 'GET', `/ai/document-chat-history/${DOCUMENT_ID}`, 200);
+      await expectStatus(viewer, 'GET', `/ai/document-chat-history/${DOCUMENT_ID}`, 200);
+      await expectStatus(stranger, 'GET', `/ai/document-chat-history/${DOCUMENT_ID}`, 404);
+    });
+
+    it('requires the editor role to clear the history', async () => {
+      await expectStatus(viewer, 'DELETE', `/ai/document-chat-history/${DOCUMENT_ID}`, 403);
+      await expectStatus(stranger, 'DELETE', `/ai/document-chat-history/${DOCUMENT_ID}`, 404);
+      await expectStatus(owner, 'DELETE', `/ai/document-chat-history/${DOCUMENT_ID}`, 200);
+    });
+  });
+
+  describe('AI routes', () => {
+    const generation = { prompt: 'Summarize the plan', mode: 'ask', documentId: DOCUMENT_ID };
+
+    it('requires the commenter role to generate text in a document', async () => {
+      await expectStatus(owner, 'POST', '/ai/generate-text', 200, generation);
+      await expectStatus(commenter, 'POST', '/ai/generate-text', 200, generation);
+      await expectStatus(viewer, 'POST', '/ai/generate-text', 403, generation);
+      await expectStatus(stranger, 'POST', '/ai/generate-text', 404, generation);
+    });
+
+    it('does not charge credits when the document check fails', async () => {
+      const { body } = await expectStatus(stranger, 'POST', '/ai/generate-text', 404, generation);
+      assert.equal(body.message, 'Document not found');
+
+      assert.equal(rows('user').find((user) => user.id === stranger.id)!.availableCredits, 100);
+      assert.equal(rows('creditTransaction').length, 0);
+    });
+
+    it('requires the editor role to transform a selection', async () => {
+      const transform = { documentId: DOCUMENT_ID, start: 3, end: 12, operation: 'shorten' };
+
+      await expectStatus(commenter, 'POST', '/ai/transform', 403, transform);
+      await expectStatus(stranger, 'POST', '/ai/transform', 404, transform);
+      await expectStatus(owner, 'POST', '/ai/transform', 400, { ...transform, documentId: undefined });
+    });
+
+    it('requires the commenter role to proofread', async () => {
+      const proofread = { documentId: DOCUMENT_ID, review: false };
+
+      await expectStatus(commenter, 'POST', '/ai/proofread', 200, proofread);
+      await expectStatus(viewer, 'POST', '/ai/proofread', 403, proofread);
+      await expectStatus(stranger, 'POST', '/ai/proofread', 404, proofread);
+    });
+  });
+});
@@ -0,0 +1,6 @@
+// Tests never reach a real model provider
+process.env.LLM_PROVIDER = 'mock';
+process.env.INTENT_CLASSIFIER = 'keyword';
+// Required to load the auth routes; never used
+process.env.GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID || 'test-client-id';
+process.env.GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET || 'test-client-secret';
@@ -0,0 +1,139 @@
+/**
+ * In-memory stand-in for the Prisma client, good enough for route tests.
+ * Importing this module installs it as the shared client from src/db/prisma,
+ * so it must be imported before any module that uses the database.
+ *
+ * Every model is a table of plain records. `where` supports equality, OR,
+ * `not`, `in` and `gte`; `data` supports increment and decrement.
+ * `select`, `include` and `orderBy` are ignored.
+ */
+
+type Row = Record<string, any>;
+
+function matches(record: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') {
+      return (condition as Row[]).some((option) => matches(record, option));
+    }
+    if (key === 'AND') {
+      return (condition as Row[]).every((option) => matches(record, option));
+    }
+    if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('not' in condition && record[key] === condition.not) {
+        return false;
+      }
+      if ('in' in condition && !condition.in.includes(record[key])) {
+        return false;
+      }
+      if ('gte' in condition && !(record[key] >= condition.gte)) {
+        return false;
+      }
+      return true;
+    }
+    return (record[key] ?? null) === condition;
+  });
+}
+
+function applyData(record: Row, data: Row) {
+  Object.entries(data).forEach(([key, value]) => {
+    if (value !== null && typeof value === 'object' && 'increment' in value) {
+      record[key] = (record[key] || 0) + value.increment;
+    } else if (value !== null && typeof value === 'object' && 'decrement' in value) {
+      record[key] = (record[key] || 0) - value.decrement;
+    } else {
+      record[key] = value;
+    }
+  });
+  return record;
+}
+
+function createTable(rows: Row[]) {
+  const create = ({ data }: { data: Row }) => {
+    const record = applyData({ id: rows.reduce((max, row) => Math.max(max, row.id || 0), 0) + 1 }, data);
+    rows.push(record);
+    return record;
+  };
+  const findFirst = ({ where }: { where?: Row } = {}) => rows.find((row) => matches(row, where)) || null;
+  const findOrThrow = (args: { where?: Row }) => {
+    const record = findFirst(args);
+    if (!record) {
+      throw Object.assign(new Error('No record found'), { code: 'P2025' });
+    }
+    return record;
+  };
+
+  const methods: Record<string, (args: any) => any> = {
+    create,
+    findFirst,
+    findUnique: findFirst,
+    findFirstOrThrow: findOrThrow,
+    findUniqueOrThrow: findOrThrow,
+    findMany: ({ where, take }: { where?: Row; take?: number } = {}) => rows.filter((row) => matches(row, where)).slice(0, take),
+    count: ({ where }: { where?: Row } = {}) => rows.filter((row) => matches(row, where)).length,
+    update: (args: { where: Row; data: Row }) => applyData(findOrThrow(args), args.data),
+    updateMany: ({ where, data }: { where?: Row; data: Row }) => {
+      const updated = rows.filter((row) => matches(row, where));
+      updated.forEach((row) => applyData(row, data));
+      return { count: updated.length };
+    },
+    upsert: ({ where, create: data, update }: { where: Row; create: Row; update: Row }) => {
+      const record = findFirst({ where });
+      return record ? applyData(record, update) : create({ data });
+    },
+    delete: (args: { where: Row }) => {
+      const record = findOrThrow(args);
+      rows.splice(rows.indexOf(record), 1);
+      return record;
+    },
+    deleteMany: ({ where }: { where?: Row } = {}) => {
+      const deleted = rows.filter((row) => matches(row, where));
+      deleted.forEach((row) => rows.splice(rows.indexOf(row), 1));
+      return { count: deleted.length };
+    }
+  };
+
+  // Queries resolve asynchronously, like the real client
+  return Object.fromEntries(
+    Object.entries(methods).map(([name, method]) => [name, async (args: any) => method(args)])
+  );
+}
+
+const tables = new Map<string, Row[]>();
+
+export const fakePrisma: any = new Proxy({}, {
+  get(_target, property) {
+    if (typeof property !== 'string' || property === 'then') {
+      return undefined;
+    }
+
+    switch (property) {
+      case '$transaction':
+        return async (operations: any) => (typeof operations === 'function' ? operations(fakePrisma) : Promise.all(operations));
+      case '$queryRaw':
+      case '$executeRaw':
+        return async () => [];
+      case '$connect':
+      case '$disconnect':
+        return async () => undefined;
+    }
+
+    if (!tables.has(property)) {
+      tables.set(property, []);
+    }
+    return createTable(tables.get(property)!);
+  }
+});
+
+/**
+ * Replace the contents of the tables with the given records
+ */
+export function seed(data: Record<string, Row[]>) {
+  tables.clear();
+  Object.entries(data).forEach(([model, rows]) => tables.set(model, rows.map((row) => ({ ...row }))));
+}
+
+export function rows(model: string): Row[] {
+  return tables.get(model) || [];
+}
+
+(global as any).prisma = fakePrisma;
@@ -0,0 +1,54 @@
+import './env';
+import './fakePrisma';
+import express from 'express';
+import { AddressInfo } from 'net';
+import AppRoot from '../../routes';
+import { generateAccessToken } from '../../utils/auth.utils';
+import { attachCollaborationServer } from '../../services/collaboration.service';
+
+export interface TestServer {
+  port: number;
+  request(method: string, path: string, options?: { token?: string; body?: any; raw?: boolean }): Promise<{ status: number; body: any }>;
+  close(): Promise<void>;
+}
+
+/**
+ * The API routes and the collaboration server on an ephemeral port, mounted
+ * the way App.ts mounts them
+ */
+export async function startServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/v1', AppRoot);
+
+  const server = await new Promise<ReturnType<typeof app.listen>>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  attachCollaborationServer(server);
+
+  return {
+    port,
+    async request(method, path, { token, body, raw = false } = {}) {
+      const response = await fetch(`http://127.0.0.1:${port}/api/v1${path}`, {
+        method,
+        headers: {
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      });
+      const text = await response.text();
+
+      // Raw bodies are for non-JSON responses such as event streams
+      return { status: response.status, body: raw ? text : text ? JSON.parse(text) : null };
+    },
+    close() {
+      return new Promise((resolve) => server.close(() => resolve()));
+    }
+  };
+}
+
+export function tokenFor(user: { id: number; email: string }) {
+  return generateAccessToken({ userId: user.id, email: user.email });
+}
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractJsonCandidate, repairJson, validateJson } from '../utils/json.utils';
+
+const parseRepaired = (text: string) => JSON.parse(repairJson(text));
+
+describe('repairJson', () => {
+  it('keeps comment markers inside single-quoted strings', () => {
+    assert.deepEqual(parseRepaired("{'url': 'http://x'}"), { url: 'http://x' });
+    assert.deepEqual(parseRepaired("{'pattern': '/* not a comment */'} // trailing note"), { pattern: '/* not a comment */' });
+  });
+
+  it('strips comments outside of strings', () => {
+    assert.deepEqual(parseRepaired('{\n  // the title\n  "title": "a // b", /* inline */ "count": 2\n}'), { title: 'a // b', count: 2 });
+  });
+
+  it('fixes unquoted keys, Python literals and trailing commas', () => {
+    assert.deepEqual(parseRepaired("{ok: True, value: None, items: ['a', 'b',],}"), { ok: true, value: null, items: ['a', 'b'] });
+  });
+
+  it('closes output that was cut off', () => {
+    assert.deepEqual(parseRepaired('{"items": [{"text": "one"}, {"text": "tw'), { items: [{ text: 'one' }] });
+  });
+});
+
+describe('extractJsonCandidate', () => {
+  it('finds the JSON in a fenced response with chatter around it', () => {
+    assert.equal(extractJsonCandidate('Here you go:\n```json\n{"a": 1}\n```\nAnything else?'), '{"a": 1}');
+  });
+});
+
+describe('validateJson', () => {
+  it('accepts missing and null values for optional nullable properties', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: { name: { type: 'string' as const, nullable: true }, date: { type: 'string' as const, nullable: true } }
+    };
+
+    assert.deepEqual(validateJson({ name: null }, schema), { value: { name: null }, errors: [] });
+  });
+});
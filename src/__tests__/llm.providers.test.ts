@@ -0,0 +1,218 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MockProvider } from '../services/llm/mock.provider';
+import { OpenAICompatibleProvider } from '../services/llm/openai.provider';
+import { guardStream } from '../services/llm/resilience';
+import { LLMStreamChunk } from '../types/llm.types';
+
+async function collect(stream: AsyncIterable<LLMStreamChunk>) {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('MockProvider', () => {
+  it('answers with the fixed response and word-count usage', async () => {
+    const provider = new MockProvider('Four words of text');
+    const result = await provider.generate('Two words', { model: 'mock-large' });
+
+    assert.equal(result.text, 'Four words of text');
+    assert.equal(result.provider, 'mock');
+    assert.equal(result.model, 'mock-large');
+    assert.deepEqual(result.usage, { promptTokens: 2, completionTokens: 4, totalTokens: 6 });
+  });
+
+  it('echoes the last line of the prompt and honours maxOutputTokens', async () => {
+    const provider = new MockProvider(undefined);
+    const result = await provider.generate('Context line\nWrite the summary', { maxOutputTokens: 3 });
+
+    assert.equal(result.text.trim(), 'Mock response to:');
+    assert.equal(result.usage?.completionTokens, 3);
+  });
+
+  it('streams the same text as generate, with usage on the last chunk only', async () => {
+    const provider = new MockProvider('One two three');
+    const chunks = await collect(await provider.stream('Prompt'));
+
+    assert.deepEqual(chunks.map((chunk) => chunk.text), ['One ', 'two ', 'three']);
+    assert.deepEqual(chunks.map((chunk) => Boolean(chunk.usage)), [false, false, true]);
+    assert.deepEqual(chunks[2].usage, (await provider.generate('Prompt')).usage);
+  });
+});
+
+describe('guardStream', () => {
+  it('aborts the request when the caller stops reading early', async () => {
+    const controller = new AbortController();
+    const stream = guardStream(await new MockProvider('One two three').stream('Prompt'), { provider: 'mock', model: 'mock' }, controller);
+
+    for await (const chunk of stream) {
+      assert.equal(chunk.text, 'One ');
+      break;
+    }
+
+    assert.equal(controller.signal.aborted, true);
+  });
+
+  it('leaves the request alone when the stream ends', async () => {
+    const controller = new AbortController();
+    await collect(guardStream(await new MockProvider('One two').stream('Prompt'), { provider: 'mock', model: 'mock' }, controller));
+
+    assert.equal(controller.signal.aborted, false);
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: { url?: string; headers: http.IncomingHttpHeaders; body: any }[];
+  let reply: (res: http.ServerResponse) => void;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+        reply(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const json = (status: number, body: any) => (res: http.ServerResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  it('sends a chat completions request and maps the usage', async () => {
+    reply = json(200, {
+      model: 'gpt-4o-mini-2024',
+      choices: [{ message: { role: 'assistant', content: 'Hello there' } }],
+      usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 }
+    });
+    const provider = new OpenAICompatibleProvider(baseUrl, 'secret');
+
+    const result = await provider.generate('Say hello', { model: 'gpt-4o-mini', maxOutputTokens: 20, temperature: 0.3 });
+
+    const [request] = requests;
+    assert.equal(request.url, '/v1/chat/completions');
+    assert.equal(request.headers.authorization, 'Bearer secret');
+    assert.deepEqual(request.body, {
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Say hello' }],
+      max_tokens: 20,
+      temperature: 0.3,
+      stream: false
+    });
+    assert.deepEqual(result, {
+      text: 'Hello there',
+      provider: 'openai',
+      model: 'gpt-4o-mini-2024',
+      usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 }
+    });
+  });
+
+  it('sends structured output schemas to models that support them', async () => {
+    reply = json(200, { choices: [{ message: { content: '{}' } }] });
+    const provider = new OpenAICompatibleProvider(baseUrl);
+
+    await provider.generate('Extract', {
+      model: 'gpt-4o',
+      responseFormat: {
+        type: 'json',
+        name: 'extraction',
+        schema: {
+          type: 'object',
+          properties: { title: { type: 'string', nullable: true } },
+          required: ['title']
+        }
+      }
+    });
+
+    assert.equal(requests[0].headers.authorization, undefined);
+    assert.deepEqual(requests[0].body.response_format, {
+      type: 'json_schema',
+      json_schema: {
+        name: 'extraction',
+        schema: { type: 'object', properties: { title: { type: ['string', 'null'] } }, required: ['title'] },
+        strict: false
+      }
+    });
+  });
+
+  it('keeps the HTTP status on errors', async () => {
+    reply = json(429, { error: { message: 'Rate limit reached' } });
+    const provider = new OpenAICompatibleProvider(baseUrl);
+
+    await assert.rejects(provider.generate('Hi'), (error: any) => error.status === 429 && error.message === 'Rate limit reached');
+  });
+
+  it('parses server-sent events split across network chunks', async () => {
+    const events = [
+      { choices: [{ delta: { role: 'assistant' } }] },
+      { choices: [{ delta: { content: 'Hel' } }] },
+      { choices: [{ delta: { content: 'lo' } }] },
+      { choices: [], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } }
+    ];
+    const payload = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      // Cut the stream in the middle of events
+      const cuts = [17, 60, 61, 140];
+      let position = 0;
+      const writeNext = () => {
+        const cut = cuts.shift();
+        if (cut === undefined) {
+          res.end(payload.substring(position));
+          return;
+        }
+        res.write(payload.substring(position, cut));
+        position = cut;
+        setTimeout(writeNext, 5);
+      };
+      writeNext();
+    };
+    const provider = new OpenAICompatibleProvider(baseUrl);
+
+    const chunks = await collect(await provider.stream('Hi', { model: 'local-model' }));
+
+    assert.equal(requests[0].body.stream, true);
+    assert.deepEqual(requests[0].body.stream_options, { include_usage: true });
+    assert.equal(chunks.map((chunk) => chunk.text).join(''), 'Hello');
+    assert.deepEqual(chunks.filter((chunk) => chunk.usage).map((chunk) => chunk.usage), [
+      { promptTokens: 3, completionTokens: 2, totalTokens: 5 }
+    ]);
+  });
+
+  it('closes the connection when the caller stops reading', async () => {
+    let closed!: Promise<void>;
+    reply = (res) => {
+      closed = new Promise((resolve) => res.on('close', resolve));
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      // The server would go on generating if the connection stayed open
+      res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hel' } }] })}\n\n`);
+    };
+    const provider = new OpenAICompatibleProvider(baseUrl);
+
+    for await (const chunk of await provider.stream('Hi')) {
+      assert.equal(chunk.text, 'Hel');
+      break;
+    }
+
+    await closed;
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPhraseModel, suggestFromPhraseModel } from '../services/phraseModel.service';
+
+describe('buildPhraseModel', () => {
+  it('drops multi-word phrases seen once and counts what it keeps', () => {
+    const model = buildPhraseModel(['Thank you for your time. Thank you for your help. Thank you so much.']);
+    const afterYou = model.continuations.get('thank you')!;
+
+    assert.equal(afterYou.get('for your'), 2);
+    assert.equal(afterYou.get('so'), 1);
+    assert.equal(afterYou.has('so much'), false);
+
+    const continuations = Array.from(model.continuations.values()).reduce((sum, counts) => sum + counts.size, 0);
+    assert.equal(model.entries, model.words.size + continuations);
+  });
+
+  it('keeps the most frequent continuations of a context', () => {
+    const sentences = Array.from({ length: 30 }, (_, index) => `the word${index}`);
+    const model = buildPhraseModel([`${sentences.join('. ')}. the word0. the word1.`]);
+    const afterThe = model.continuations.get('the')!;
+
+    assert.equal(afterThe.size, 20);
+    assert.equal(afterThe.get('word0'), 2);
+    assert.equal(afterThe.get('word1'), 2);
+  });
+
+  it('suggests what followed the last words in the user\'s writing', () => {
+    const model = buildPhraseModel(['Thank you for your time. Thank you for your help.']);
+    const [best] = suggestFromPhraseModel(model, 'Thank you ');
+
+    assert.equal(best.text, 'for your');
+    assert.equal(best.source, 'local');
+  });
+});
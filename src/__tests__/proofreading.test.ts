@@ -0,0 +1,44 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rows, seed } from './helpers/fakePrisma';
+import { startServer, TestServer, tokenFor } from './helpers/server';
+
+const user = { id: 1, email: 'writer@example.com' };
+
+describe('POST /ai/proofread', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    seed({
+      user: [{ ...user, plan: 'free', availableCredits: 0 }],
+      documents: [{ id: 1, title: 'Notes', content: '<p>This is is a test.</p>', version: 1, createdBy: user.id, deletedAt: null }]
+    });
+  });
+
+  const proofread = (review: boolean) => server.request('POST', '/ai/proofread', {
+    token: tokenFor(user),
+    body: { documentId: 1, review }
+  });
+
+  it('runs the local rules without credits', async () => {
+    const response = await proofread(false);
+
+    assert.equal(response.status, 200);
+    assert.ok(response.body.data.issues.length > 0);
+    assert.equal(rows('creditTransaction').length, 0);
+  });
+
+  it('requires credits for the AI review', async () => {
+    const response = await proofread(true);
+
+    assert.equal(response.status, 402);
+  });
+});
@@ -0,0 +1,44 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { seed } from './helpers/fakePrisma';
+import { detectRevisionSource } from '../services/revision.service';
+
+const DOCUMENT_ID = 1;
+const PREVIOUS = '<p>Our quarterly plan focuses on growth.</p>';
+const REPLY = 'Hiring two engineers will let us ship the mobile app before the summer.';
+
+describe('detectRevisionSource', () => {
+  beforeEach(() => {
+    seed({
+      chatMessage: [
+        { id: 1, documentId: DOCUMENT_ID, role: 'user', content: 'Add a sentence about hiring', createdAt: new Date() },
+        { id: 2, documentId: DOCUMENT_ID, role: 'ai', content: REPLY, createdAt: new Date() }
+      ]
+    });
+  });
+
+  it('tags insertions of a recent AI reply as ai', async () => {
+    const content = `<p>Our quarterly plan focuses on growth.</p><p>${REPLY}</p>`;
+    assert.equal(await detectRevisionSource(DOCUMENT_ID, PREVIOUS, content), 'ai');
+  });
+
+  it('tags hand-written changes as manual', async () => {
+    const content = '<p>Our quarterly plan focuses on growth and on keeping costs flat.</p>';
+    assert.equal(await detectRevisionSource(DOCUMENT_ID, PREVIOUS, content), 'manual');
+  });
+
+  it('ignores replies to other documents and old replies', async () => {
+    const content = `${PREVIOUS}<p>${REPLY}</p>`;
+
+    assert.equal(await detectRevisionSource(2, PREVIOUS, content), 'manual');
+
+    seed({ chatMessage: [{ id: 1, documentId: DOCUMENT_ID, role: 'ai', content: REPLY, createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000) }] });
+    assert.equal(await detectRevisionSource(DOCUMENT_ID, PREVIOUS, content), 'manual');
+  });
+
+  it('tags a change as manual when most of the inserted text was typed by hand', async () => {
+    const typed = 'We also plan to renegotiate every vendor contract, review the office lease and cut travel by a third.';
+    const content = `${PREVIOUS}<p>${REPLY}</p><p>${typed}</p>`;
+    assert.equal(await detectRevisionSource(DOCUMENT_ID, PREVIOUS, content), 'manual');
+  });
+});
@@ -0,0 +1,65 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rows, seed } from './helpers/fakePrisma';
+import { startServer, TestServer, tokenFor } from './helpers/server';
+import { setIntentClassifier } from '../services/intent.service';
+import { IntentClassifier } from '../types/intent.types';
+
+const user = { id: 1, email: 'writer@example.com' };
+const CLASSIFICATION_USAGE = { model: 'mock-intent', promptTokens: 40, completionTokens: 5, totalTokens: 45 };
+
+// Stands in for the LLM classifier, which reports the usage of its own model call
+const classifier: IntentClassifier = {
+  name: 'test',
+  async classify() {
+    return { intent: 'agent', confidence: 0.9, source: 'llm', model: CLASSIFICATION_USAGE.model, usage: CLASSIFICATION_USAGE };
+  }
+};
+
+describe('text generation in auto mode', () => {
+  let server: TestServer;
+
+  before(async () => {
+    setIntentClassifier(classifier);
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    seed({
+      user: [{ ...user, plan: 'free', availableCredits: 100 }],
+      documents: [{ id: 1, title: 'Essay', content: '<p>Draft</p>', version: 1, createdBy: user.id, deletedAt: null }]
+    });
+  });
+
+  const body = { prompt: 'Write an introduction', mode: 'auto', documentId: 1 };
+
+  // The chat history keeps the usage of the generation alone
+  const expectBilledWithClassification = () => {
+    const [debit] = rows('creditTransaction');
+    const prompt = rows('chatMessage').find((message) => message.role === 'user')!;
+    const reply = rows('chatMessage').find((message) => message.role === 'ai')!;
+
+    assert.equal(debit.model, reply.model);
+    assert.equal(debit.promptTokens, prompt.promptTokens + CLASSIFICATION_USAGE.promptTokens);
+    assert.equal(debit.completionTokens, reply.completionTokens + CLASSIFICATION_USAGE.completionTokens);
+    assert.equal(debit.totalTokens, debit.promptTokens + debit.completionTokens);
+  };
+
+  it('bills the intent classification with the generation', async () => {
+    const response = await server.request('POST', '/ai/generate-text', { token: tokenFor(user), body });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.detectedIntent, 'agent');
+    expectBilledWithClassification();
+  });
+
+  it('bills the intent classification with a streamed generation', async () => {
+    const response = await server.request('POST', '/ai/generate-text/stream', { token: tokenFor(user), body, raw: true });
+    assert.equal(response.status, 200);
+    assert.match(response.body, /event: done/);
+    expectBilledWithClassification();
+  });
+});
@@ -0,0 +1,78 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { seed } from './helpers/fakePrisma';
+import { startServer, TestServer, tokenFor } from './helpers/server';
+
+// The mock provider answers every prompt with this, as a model might
+process.env.LLM_MOCK_RESPONSE = 'Fish and <strong>chips</strong><script>alert(1)</script><a href="javascript:alert(1)" onclick="alert(1)">here</a>';
+
+const user = { id: 1, email: 'writer@example.com' };
+const CONTENT = '<p>Fish &amp; chips are <strong>great</strong></p><p>Peas<br>are fine</p>';
+
+describe('POST /ai/transform', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    seed({
+      user: [{ ...user, plan: 'free', availableCredits: 100 }],
+      documents: [{ id: 1, title: 'Menu', content: CONTENT, version: 1, createdBy: user.id, deletedAt: null }]
+    });
+  });
+
+  const transform = (start: number, end: number) => server.request('POST', '/ai/transform', {
+    token: tokenFor(user),
+    body: { documentId: 1, operation: 'rephrase', start, end }
+  });
+
+  it('rejects ranges that cut through a tag or a character reference', async () => {
+    const tagged = CONTENT.indexOf('<strong>');
+    const entity = CONTENT.indexOf('&amp;');
+
+    for (const [start, end] of [[1, 10], [3, tagged + 3], [3, entity + 2], [entity + 1, tagged]]) {
+      const response = await transform(start, end);
+      assert.equal(response.status, 400, `${start}-${end}`);
+      assert.match(response.body.message, /HTML tag or character reference/);
+    }
+  });
+
+  it('rejects ranges that cross the start or end of an element', async () => {
+    const ranges = [
+      // Across the paragraph boundary
+      [CONTENT.indexOf('great'), CONTENT.indexOf('Peas') + 4],
+      [CONTENT.indexOf('are'), CONTENT.indexOf('great') + 2],
+      [CONTENT.indexOf('great'), CONTENT.indexOf('</p>')]
+    ];
+
+    for (const [start, end] of ranges) {
+      const response = await transform(start, end);
+      assert.equal(response.status, 400, `${start}-${end}`);
+      assert.match(response.body.message, /must not cross the start or end of an HTML element/);
+    }
+  });
+
+  it('accepts ranges that hold whole elements', async () => {
+    const response = await transform(CONTENT.indexOf('Peas'), CONTENT.lastIndexOf('</p>'));
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.data.original, 'Peas<br>are fine');
+  });
+
+  it('sanitizes the replacement like imported HTML', async () => {
+    const start = CONTENT.indexOf('Fish');
+    const end = CONTENT.indexOf(' are');
+
+    const response = await transform(start, end);
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.data.original, 'Fish &amp; chips');
+    assert.equal(response.body.data.replacement, 'Fish and <strong>chips</strong><a>here</a>');
+  });
+});
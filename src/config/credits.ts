@@ -0,0 +1,31 @@
+import { CreditOperation } from '../types/credit.types';
+
+/**
+ * Credits charged per call for each metered operation
+ */
+export const CREDIT_COSTS: Record<CreditOperation, number> = {
+    'ai.generate-text': 2,
+    'ai.humanize': 5,
+    'ai.classify-intent': 1,
+    'ai.transform': 2,
+    'ai.proofread': 2,
+    'autocompletion.suggestions': 1,
+    'autocompletion.predict': 1,
+    'templates.fill': 2,
+};
+
+/**
+ * Credits granted to a new account on each plan
+ */
+export const PLAN_STARTING_CREDITS: Record<string, number> = {
+    free: 100,
+    pro: 2000,
+};
+
+export function getOperationCost(operation: CreditOperation): number {
+    return CREDIT_COSTS[operation];
+}
+
+export function getStartingCredits(plan: string): number {
+    return PLAN_STARTING_CREDITS[plan] ?? PLAN_STARTING_CREDITS.free;
+}
@@ -0,0 +1,114 @@
+import { LLMModelSelection, LLMProviderName, LLMResilienceSettings, LLMRole } from '../types/llm.types';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['gemini', 'openai', 'mock'];
+
+/**
+ * Models used for each role when no LLM_<ROLE>_MODEL override is configured
+ */
+export const DEFAULT_ROLE_MODELS: Record<LLMProviderName, Record<LLMRole, string>> = {
+    gemini: {
+        generation: 'gemini-2.0-flash-exp',
+        autocompletion: 'gemini-1.5-flash',
+        prediction: 'gemini-2.0-flash-exp',
+        templates: 'gemini-2.0-flash-exp',
+        intent: 'gemini-1.5-flash',
+        proofreading: 'gemini-2.0-flash-exp',
+    },
+    openai: {
+        generation: 'gpt-4o-mini',
+        autocompletion: 'gpt-4o-mini',
+        prediction: 'gpt-4o-mini',
+        templates: 'gpt-4o-mini',
+        intent: 'gpt-4o-mini',
+        proofreading: 'gpt-4o-mini',
+    },
+    mock: {
+        generation: 'mock-1',
+        autocompletion: 'mock-1',
+        prediction: 'mock-1',
+        templates: 'mock-1',
+        intent: 'mock-1',
+        proofreading: 'mock-1',
+    },
+};
+
+export function isLLMProviderName(name: any): name is LLMProviderName {
+    return LLM_PROVIDERS.includes(name);
+}
+
+/**
+ * Provider used when a role does not name one (LLM_PROVIDER, default gemini)
+ */
+export function getDefaultProvider(): LLMProviderName {
+    const provider = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+    if (!isLLMProviderName(provider)) {
+        throw new Error(`Unknown LLM_PROVIDER "${provider}". Expected one of: ${LLM_PROVIDERS.join(', ')}`);
+    }
+
+    return provider;
+}
+
+/**
+ * Parse a model setting of the form "model" or "provider:model"
+ */
+export function parseModelSelection(value: string, fallbackProvider: LLMProviderName): LLMModelSelection {
+    const separator = value.indexOf(':');
+    const prefix = separator > 0 ? value.substring(0, separator).toLowerCase() : '';
+
+    if (isLLMProviderName(prefix)) {
+        return { provider: prefix, model: value.substring(separator + 1) };
+    }
+
+    return { provider: fallbackProvider, model: value };
+}
+
+/**
+ * Provider and model configured for a role, e.g. LLM_AUTOCOMPLETION_MODEL=openai:gpt-4o-mini
+ */
+export function getRoleModel(role: LLMRole): LLMModelSelection {
+    const provider = getDefaultProvider();
+    const override = process.env[`LLM_${role.toUpperCase()}_MODEL`];
+
+    if (override) {
+        return parseModelSelection(override.trim(), provider);
+    }
+
+    return { provider, model: DEFAULT_ROLE_MODELS[provider][role] };
+}
+
+/**
+ * Whether a provider has what it needs to serve requests. OpenAI-compatible
+ * servers need an API key unless OPENAI_KEYLESS=true says the server at
+ * OPENAI_BASE_URL accepts requests without one. The mock provider is only
+ * offered when it is the configured default.
+ */
+export function isProviderConfigured(provider: LLMProviderName): boolean {
+    switch (provider) {
+        case 'gemini':
+            return Boolean(process.env.GEMINI_API_KEY);
+        case 'openai':
+            return Boolean(process.env.OPENAI_API_KEY || (process.env.OPENAI_KEYLESS === 'true' && process.env.OPENAI_BASE_URL));
+        case 'mock':
+            return getDefaultProvider() === 'mock';
+    }
+}
+
+/**
+ * Model tried when a request still fails after retries, e.g. LLM_FALLBACK_MODEL=openai:gpt-4o-mini
+ */
+export function getFallbackModel(): LLMModelSelection | null {
+    const value = process.env.LLM_FALLBACK_MODEL?.trim();
+    return value ? parseModelSelection(value, getDefaultProvider()) : null;
+}
+
+export function getResilienceSettings(): LLMResilienceSettings {
+    return {
+        timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '30000'),
+        maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2'),
+        retryBaseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '500'),
+        retryMaxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '8000'),
+        circuitFailureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '5'),
+        circuitCooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '30000'),
+    };
+}
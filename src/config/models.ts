@@ -0,0 +1,65 @@
+import { ModelCatalogEntry } from '../types/llm.types';
+
+/**
+ * Models users may request for text generation and the plans allowed to use them
+ */
+export const MODEL_CATALOG: ModelCatalogEntry[] = [
+    {
+        id: 'gemini-2.0-flash-exp',
+        provider: 'gemini',
+        displayName: 'Gemini 2.0 Flash (experimental)',
+        contextWindow: 1048576,
+        inputCostPerToken: 0.0000001,
+        outputCostPerToken: 0.0000004,
+        plans: ['free', 'pro'],
+    },
+    {
+        id: 'gemini-1.5-flash',
+        provider: 'gemini',
+        displayName: 'Gemini 1.5 Flash',
+        contextWindow: 1048576,
+        inputCostPerToken: 0.000000075,
+        outputCostPerToken: 0.0000003,
+        plans: ['free', 'pro'],
+    },
+    {
+        id: 'gemini-1.5-pro',
+        provider: 'gemini',
+        displayName: 'Gemini 1.5 Pro',
+        contextWindow: 2097152,
+        inputCostPerToken: 0.00000125,
+        outputCostPerToken: 0.000005,
+        plans: ['pro'],
+    },
+    {
+        id: 'gpt-4o-mini',
+        provider: 'openai',
+        displayName: 'GPT-4o mini',
+        contextWindow: 128000,
+        inputCostPerToken: 0.00000015,
+        outputCostPerToken: 0.0000006,
+        plans: ['free', 'pro'],
+    },
+    {
+        id: 'gpt-4o',
+        provider: 'openai',
+        displayName: 'GPT-4o',
+        contextWindow: 128000,
+        inputCostPerToken: 0.0000025,
+        outputCostPerToken: 0.00001,
+        plans: ['pro'],
+    },
+    {
+        id: 'mock-1',
+        provider: 'mock',
+        displayName: 'Mock model',
+        contextWindow: 32768,
+        inputCostPerToken: 0,
+        outputCostPerToken: 0,
+        plans: ['free', 'pro'],
+    },
+];
+
+export function findCatalogModel(id: string): ModelCatalogEntry | undefined {
+    return MODEL_CATALOG.find((entry) => entry.id === id);
+}
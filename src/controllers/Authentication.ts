@@ -20,6 +20,7 @@ import {
 } from '../types/auth.types';
 import { catchAsync } from '../utils/httpWrapper';
 import { EmailService } from '../services/email.service';
+import { getStartingCredits } from '../config/credits';
 import passport from '../utils/passport';
 
 export async function register(req: Request<{}, {}, RegisterRequest>, res: Response) {
@@ -59,6 +60,7 @@ export async function register(req: Request<{}, {}, RegisterRequest>, res: Respo
         firstName,
         lastName,
         plan: 'free',
+        availableCredits: getStartingCredits('free'),
         betaMember: isBetaApproved,
         status: isBetaApproved ? 'approved' : 'pending'
       }
@@ -1,59 +1,119 @@
-import { Request, Response } from 'express';
-import { generateContent } from '../services/gemini.service';
-import { AutocompletionRequest, AutocompletionResponse, SuggestionItem } from '../types/autocompletion.types';
+import { Response } from 'express';
+import { generateForRole } from '../services/llm';
+import { generateStructuredForRole } from '../services/llm/structured';
+import { getRoleModel } from '../config/llm';
+import { refundCredits, settleCredits, toCreditUsage } from '../services/credit.service';
+import { buildAutocompletionCacheKey, cacheSuggestions, getCachedSuggestions } from '../services/autocompletionCache.service';
+import { getPhraseModel, suggestFromPhraseModel } from '../services/phraseModel.service';
+import {
+  AutocompletionRequest,
+  AutocompletionResponse,
+  AutocompletionStrategy,
+  SuggestionCacheInfo,
+  SuggestionFallback,
+  SuggestionItem
+} from '../types/autocompletion.types';
+import { AuthRequest } from '../types/auth.types';
+import { CreditUsage } from '../types/credit.types';
+import { StructuredOutputSpec } from '../types/llm.types';
+import { openSseStream, writeSseEvent } from '../utils/sse.utils';
+import { fitSuggestionsToCursor } from '../utils/completion.utils';
 import { v4 as uuidv4 } from 'uuid';
 
 
-export const getAutocompletionSuggestions = async (req: Request, res: Response) => {
-  const startTime = Date.now();
+const STRATEGIES: AutocompletionStrategy[] = ['ai', 'contextual', 'hybrid'];
+const MAX_SUGGESTIONS = 10;
+// Extra candidates asked of the model so hybrid reranking has a choice and hasMore is meaningful
+const EXTRA_AI_CANDIDATES = 3;
 
-  try {
-    const {
-      text,
-      cursorPosition = text?.length || 0,
-      context = '',
-      documentType = 'general',
-      maxSuggestions = 5,
-      strategy = 'ai'
-    }: AutocompletionRequest = req.body;
-
-    if (!text || typeof text !== 'string') {
-      return res.status(400).json({
-        success: false,
-        message: 'Text is required and must be a string',
-        data: null
-      });
-    }
+interface ParsedAutocompletionRequest {
+  text: string;
+  cursorPosition: number;
+  context: string;
+  documentType: string;
+  maxSuggestions: number;
+  strategy: AutocompletionStrategy;
+  fillInMiddle: boolean;
+}
 
-    if (text.length > 10000) {
-      return res.status(400).json({
-        success: false,
-        message: 'Text is too long. Maximum 10,000 characters allowed',
-        data: null
-      });
-    }
+interface SuggestionSet {
+  // Every ranked candidate; responses carry the first maxSuggestions
+  candidates: SuggestionItem[];
+  usage?: CreditUsage;
+  fallback: SuggestionFallback | null;
+  cache: SuggestionCacheInfo;
+}
 
-    const suggestions = await generateTextPredictions(
+function parseAutocompletionRequest(body: any): { request?: ParsedAutocompletionRequest; error?: string } {
+  const {
+    text,
+    cursorPosition = text?.length || 0,
+    context = '',
+    documentType = 'general',
+    maxSuggestions = 5,
+    strategy = 'ai',
+    fillInMiddle
+  }: AutocompletionRequest = body;
+
+  if (!text || typeof text !== 'string') {
+    return { error: 'Text is required and must be a string' };
+  }
+
+  if (text.length > 10000) {
+    return { error: 'Text is too long. Maximum 10,000 characters allowed' };
+  }
+
+  if (!STRATEGIES.includes(strategy)) {
+    return { error: `Invalid strategy. Must be one of: ${STRATEGIES.join(', ')}` };
+  }
+
+  const cursor = Math.min(Math.max(Number(cursorPosition) || 0, 0), text.length);
+
+  return {
+    request: {
       text,
-      cursorPosition,
-      context,
+      cursorPosition: cursor,
+      context: typeof context === 'string' ? context : '',
       documentType,
-      maxSuggestions
-    );
+      maxSuggestions: Math.min(Math.max(Math.floor(Number(maxSuggestions)) || 5, 1), MAX_SUGGESTIONS),
+      strategy,
+      fillInMiddle: typeof fillInMiddle === 'boolean' ? fillInMiddle : /\S/.test(text.substring(cursor))
+    }
+  };
+}
 
-    const processingTime = Date.now() - startTime;
+function toAutocompletionResponse(set: SuggestionSet, request: ParsedAutocompletionRequest, startTime: number): AutocompletionResponse {
+  return {
+    suggestions: set.candidates.slice(0, request.maxSuggestions),
+    strategy: request.strategy,
+    processingTime: Date.now() - startTime,
+    hasMore: set.candidates.length > request.maxSuggestions,
+    fallback: set.fallback,
+    cache: set.cache
+  };
+}
 
-    const response: AutocompletionResponse = {
-      suggestions,
-      strategy: strategy || 'ai',
-      processingTime,
-      hasMore: false 
-    };
+export const getAutocompletionSuggestions = async (req: AuthRequest, res: Response) => {
+  const startTime = Date.now();
+  const { request, error } = parseAutocompletionRequest(req.body);
+
+  if (!request) {
+    return res.status(400).json({
+      success: false,
+      message: error,
+      data: null
+    });
+  }
+
+  try {
+    const set = await collectSuggestions(req, request);
+    // Only model usage is billed; cached, local and offline suggestions are free
+    await settleCredits(req.creditCharge, set.usage);
 
     res.json({
       success: true,
       message: 'Autocompletion suggestions generated successfully',
-      data: response
+      data: toAutocompletionResponse(set, request, startTime)
     });
 
   } catch (error) {
@@ -66,49 +126,240 @@ export const getAutocompletionSuggestions = async (req: Request, res: Response)
       message: 'Failed to generate autocompletion suggestions',
       data: {
         suggestions: [],
-        strategy: 'ai',
+        strategy: request.strategy,
         processingTime,
-        hasMore: false
+        hasMore: false,
+        fallback: null,
+        cache: { hit: false, ageMs: null }
       }
     });
   }
 };
 
+/**
+ * Server-Sent Events variant. With the hybrid strategy a `local` event carries
+ * the local suggestions as soon as they are ready, then `done` carries the
+ * reranked response once the model has answered.
+ */
+export const streamAutocompletionSuggestions = async (req: AuthRequest, res: Response) => {
+  const startTime = Date.now();
+  const { request, error } = parseAutocompletionRequest(req.body);
+
+  if (!request) {
+    return res.status(400).json({
+      success: false,
+      message: error,
+      data: null
+    });
+  }
+
+  openSseStream(res);
+
+  try {
+    const set = await collectSuggestions(req, request, (suggestions) => {
+      writeSseEvent(res, 'local', { suggestions, processingTime: Date.now() - startTime });
+    });
+    await settleCredits(req.creditCharge, set.usage);
+
+    writeSseEvent(res, 'done', toAutocompletionResponse(set, request, startTime));
+    res.end();
+  } catch (error) {
+    console.error('Autocompletion error:', error);
+
+    // The SSE response already went out as 200, so the automatic refund does not apply
+    if (req.creditCharge) {
+      await refundCredits(req.creditCharge);
+    }
+
+    writeSseEvent(res, 'error', { message: 'Failed to generate autocompletion suggestions' });
+    res.end();
+  }
+};
+
+/**
+ * Run the requested strategy:
+ * - ai: model suggestions (cached per user and input)
+ * - contextual: local only, from the user's own documents and general heuristics
+ * - hybrid: both, merged and reranked; `onLocal` receives the local ones first
+ */
+async function collectSuggestions(
+  req: AuthRequest,
+  request: ParsedAutocompletionRequest,
+  onLocal?: (suggestions: SuggestionItem[]) => void
+): Promise<SuggestionSet> {
+  if (request.strategy === 'contextual') {
+    return {
+      candidates: await createLocalSuggestions(req.user.userId, request.text, request.cursorPosition),
+      fallback: null,
+      cache: { hit: false, ageMs: null }
+    };
+  }
+
+  if (request.strategy === 'ai') {
+    return getAISuggestions(req.user?.userId, request);
+  }
+
+  const pendingAI = getAISuggestions(req.user?.userId, request);
+  const local = await createLocalSuggestions(req.user.userId, request.text, request.cursorPosition);
+  onLocal?.(local.slice(0, request.maxSuggestions));
+
+  const ai = await pendingAI;
+  // Canned offline suggestions add nothing to the local ones
+  const aiCandidates = ai.fallback?.offline ? [] : ai.candidates;
+
+  return { ...ai, candidates: rankSuggestions(aiCandidates, local) };
+}
+
+async function getAISuggestions(userId: number | undefined, request: ParsedAutocompletionRequest): Promise<SuggestionSet> {
+  const { text, cursorPosition, context, documentType, maxSuggestions, fillInMiddle } = request;
+
+  const cacheKey = buildAutocompletionCacheKey({
+    userId,
+    beforeCursor: text.substring(0, cursorPosition),
+    afterCursor: text.substring(cursorPosition),
+    context,
+    documentType,
+    maxSuggestions,
+    fillInMiddle,
+    model: getRoleModel('autocompletion')
+  });
+
+  const cached = await getCachedSuggestions(cacheKey);
+
+  if (cached) {
+    return {
+      candidates: fitSuggestionsToCursor(cached.suggestions, text, cursorPosition),
+      fallback: null,
+      cache: { hit: true, ageMs: cached.ageMs }
+    };
+  }
+
+  const { suggestions, usage, fallback } = await generateTextPredictions(
+    text,
+    cursorPosition,
+    context,
+    documentType,
+    maxSuggestions + EXTRA_AI_CANDIDATES,
+    fillInMiddle
+  );
+
+  const candidates = suggestions.map((suggestion) => ({
+    ...suggestion,
+    source: fallback?.offline ? 'local' as const : 'ai' as const
+  }));
+
+  // Degraded answers are not cached, the next request should try the model again.
+  // Entries are stored as generated and fitted to the cursor on every read.
+  if (usage && !fallback) {
+    await cacheSuggestions(cacheKey, candidates);
+  }
+
+  return {
+    candidates: fitSuggestionsToCursor(candidates, text, cursorPosition),
+    usage,
+    fallback,
+    cache: { hit: false, ageMs: null }
+  };
+}
+
+/**
+ * Suggestions from the user's own writing, topped up with the general
+ * heuristics when their documents have nothing for this context
+ */
+async function createLocalSuggestions(userId: number, text: string, cursorPosition: number): Promise<SuggestionItem[]> {
+  const beforeCursor = text.substring(0, cursorPosition);
+  const model = await getPhraseModel(userId);
+  const fromDocuments = suggestFromPhraseModel(model, beforeCursor);
+  const afterWhitespace = /\s$/.test(beforeCursor);
+
+  const heuristics: SuggestionItem[] = generateContextualSuggestions(beforeCursor).map((suggestion, index) => ({
+    id: uuidv4(),
+    text: afterWhitespace ? suggestion.text.trimStart() : suggestion.text,
+    type: suggestion.type as 'completion' | 'continuation' | 'replacement',
+    confidence: 0.35 - (index * 0.05),
+    preview: suggestion.preview,
+    source: 'local'
+  }));
+
+  return rankSuggestions(fitSuggestionsToCursor([...fromDocuments, ...heuristics], text, cursorPosition));
+}
+
+/**
+ * Merge suggestion lists, best first. Duplicates keep the higher confidence,
+ * and a suggestion both the model and the local strategy came up with is boosted.
+ */
+function rankSuggestions(...lists: SuggestionItem[][]): SuggestionItem[] {
+  const merged = new Map<string, SuggestionItem>();
+
+  for (const suggestion of lists.flat()) {
+    const key = suggestion.text.trim().toLowerCase();
+    if (!key) {
+      continue;
+    }
+
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...suggestion });
+      continue;
+    }
+
+    const agreed = existing.source !== suggestion.source;
+    const confidence = Math.max(existing.confidence, suggestion.confidence) + (agreed ? 0.1 : 0);
+
+    merged.set(key, {
+      ...existing,
+      confidence: Math.min(1, Math.round(confidence * 100) / 100),
+      source: agreed ? 'both' : existing.source
+    });
+  }
+
+  return Array.from(merged.values()).sort((a, b) => b.confidence - a.confidence);
+}
+
 async function generateTextPredictions(
   text: string,
   cursorPosition: number,
   context: string,
   documentType: string,
-  maxSuggestions: number
-): Promise<SuggestionItem[]> {
+  maxSuggestions: number,
+  fillInMiddle: boolean
+): Promise<{ suggestions: SuggestionItem[]; usage?: CreditUsage; fallback: SuggestionFallback | null }> {
   try {
     console.log('Starting text prediction generation...');
     const beforeCursor = text.substring(0, cursorPosition);
     const afterCursor = text.substring(cursorPosition);
 
     console.log('Creating prompt...');
-    const prompt = createAutocompletionPrompt(beforeCursor, afterCursor, context, documentType, maxSuggestions);
+    const prompt = fillInMiddle
+      ? createFillInMiddlePrompt(beforeCursor, afterCursor, context, documentType, maxSuggestions)
+      : createAutocompletionPrompt(beforeCursor, afterCursor, context, documentType, maxSuggestions);
     console.log('Prompt created, length:', prompt.length);
 
-    console.log('Calling Gemini API...');
-    const geminiResponse = await generateContent(prompt, 'gemini-1.5-flash');
-    console.log('Gemini response received, length:', geminiResponse.length);
+    console.log('Calling LLM provider...');
+    const { data, result, attempts } = await generateStructuredForRole<SuggestionOutput>('autocompletion', prompt, SUGGESTION_OUTPUT);
+    console.log('LLM response received, length:', result.text.length, 'attempts:', attempts);
 
-    console.log('Parsing response...');
-    const suggestions = parseGeminiResponse(geminiResponse, maxSuggestions);
+    const suggestions = toSuggestionItems(data, maxSuggestions);
     console.log('Generated suggestions count:', suggestions.length);
 
-    return suggestions;
+    return {
+      suggestions,
+      usage: toCreditUsage(result.usage, result.model),
+      fallback: result.fallback ? { ...result.fallback, offline: false } : null
+    };
   } catch (error: any) {
     console.error('Error generating text predictions:', error.message);
 
+    // Retries and the fallback model have already been tried, so flag the offline suggestions
+    const fallback = offlineFallback('autocompletion', error);
+
     if (error.status === 429 || error.message?.includes('quota')) {
       console.log('Quota exceeded, returning fallback suggestions');
-      return createQuotaExceededSuggestions(text.substring(0, cursorPosition));
+      return { suggestions: createQuotaExceededSuggestions(text.substring(0, cursorPosition)), fallback };
     }
 
     console.log('API error, returning fallback suggestions');
-    return createDefaultSuggestions();
+    return { suggestions: createDefaultSuggestions(), fallback };
   }
 }
 
@@ -138,23 +389,69 @@ Please provide ${maxSuggestions} different text completion suggestions that woul
 4. Be relevant to the document type
 5. Offer variety in completion style (short phrases, longer continuations, different directions)
 
-Format your response as a JSON array with objects containing:
+Format your response as a JSON object with a "suggestions" array of objects containing:
 - "text": the suggested completion text
 - "type": one of "completion", "continuation", or "replacement"
 - "confidence": a number between 0 and 1 representing your confidence
 - "preview": a brief description of what the suggestion does
+- "original": only for "replacement", the exact text immediately before the cursor that "text" replaces
 
 Example format:
-[
-  {
-    "text": "suggested completion text",
-    "type": "continuation",
-    "confidence": 0.9,
-    "preview": "Continues the sentence about..."
-  }
-]
+{
+  "suggestions": [
+    {
+      "text": "suggested completion text",
+      "type": "continuation",
+      "confidence": 0.9,
+      "preview": "Continues the sentence about..."
+    }
+  ]
+}
 
-Respond ONLY with the JSON array, no additional text or explanations.`;
+Respond ONLY with the JSON object, no additional text or explanations.`;
+}
+
+// How much text around the cursor a fill-in-the-middle prompt includes
+const FIM_PREFIX_CHARS = 4000;
+const FIM_SUFFIX_CHARS = 2000;
+
+/**
+ * Prompt for completing between the text before and after the cursor, so
+ * suggestions join both sides instead of repeating or contradicting the suffix
+ */
+function createFillInMiddlePrompt(
+  beforeCursor: string,
+  afterCursor: string,
+  context: string,
+  documentType: string,
+  maxSuggestions: number
+): string {
+  const contextInfo = context ? `\nContext: ${context}` : '';
+  const prefix = beforeCursor.slice(-FIM_PREFIX_CHARS);
+  const suffix = afterCursor.substring(0, FIM_SUFFIX_CHARS);
+
+  return `You are a text completion engine. Text is missing at <CURSOR> and your task is to fill it in.
+${contextInfo}
+Document type: ${documentType}
+${getDocumentTypeInstructions(documentType)}
+
+<PREFIX>${prefix}</PREFIX><CURSOR><SUFFIX>${suffix}</SUFFIX>
+
+Provide ${maxSuggestions} different candidates for the missing text. For each candidate, PREFIX + candidate + SUFFIX must read as one natural, grammatically correct text:
+1. Never repeat or paraphrase any part of the SUFFIX; it stays exactly as it is
+2. Never contradict the SUFFIX
+3. Include leading or trailing spaces exactly where they are needed to join the PREFIX and SUFFIX
+4. Be between 1-15 words long
+5. Offer variety where the text allows it
+
+Format your response as a JSON object with a "suggestions" array of objects containing:
+- "text": the text to insert at <CURSOR>
+- "type": "completion" (finishes the current word or phrase), "continuation" (adds new words), or "replacement" (rewrites text just before <CURSOR>, e.g. a typo)
+- "confidence": a number between 0 and 1 representing your confidence
+- "preview": a brief description of what the suggestion does
+- "original": only for "replacement", the exact text at the end of PREFIX that "text" replaces
+
+Respond ONLY with the JSON object, no additional text or explanations.`;
 }
 
 function getDocumentTypeInstructions(documentType: string): string {
@@ -171,73 +468,51 @@ function getDocumentTypeInstructions(documentType: string): string {
   }
 }
 
-function parseGeminiResponse(geminiResponse: string, maxSuggestions: number): SuggestionItem[] {
-  try {
-    let parsedResponse: any[];
-
-    try {
-      const cleanedResponse = geminiResponse
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-
-      parsedResponse = JSON.parse(cleanedResponse);
-    } catch (parseError) {
-      console.warn('Failed to parse Gemini JSON response, creating fallback suggestions');
-      return createFallbackSuggestions(geminiResponse, maxSuggestions);
-    }
-
-    if (!Array.isArray(parsedResponse)) {
-      throw new Error('Response is not an array');
-    }
-
-    const suggestions: SuggestionItem[] = parsedResponse
-      .slice(0, maxSuggestions)
-      .map((item, index) => ({
-        id: uuidv4(),
-        text: item.text || `Suggestion ${index + 1}`,
-        type: validateSuggestionType(item.type),
-        confidence: Math.max(0, Math.min(1, item.confidence || 0.7)),
-        preview: item.preview || 'AI generated suggestion',
-        context: item.context || undefined
-      }))
-      .filter(suggestion => suggestion.text && suggestion.text.length > 0);
-
-    return suggestions.length > 0 ? suggestions : createDefaultSuggestions();
-
-  } catch (error) {
-    console.error('Error parsing Gemini response:', error);
-    return createFallbackSuggestions(geminiResponse, maxSuggestions);
-  }
-}
-
-function validateSuggestionType(type: string): 'completion' | 'continuation' | 'replacement' {
-  const validTypes = ['completion', 'continuation', 'replacement'];
-  return validTypes.includes(type) ? type as any : 'continuation';
+interface SuggestionOutput {
+  suggestions: Array<{ text: string; type: SuggestionItem['type']; confidence: number; preview?: string; original?: string | null }>;
 }
 
 /**
- * Create fallback suggestions when JSON parsing fails
+ * Shape the model must return; entries that fail validation are dropped
  */
-function createFallbackSuggestions(response: string, maxSuggestions: number): SuggestionItem[] {
-  // Split response into lines and use them as suggestions
-  const lines = response
-    .split('\n')
-    .map(line => line.trim())
-    .filter(line => line.length > 0 && !line.startsWith('[') && !line.startsWith('{'))
-    .slice(0, maxSuggestions);
-
-  if (lines.length === 0) {
-    return createDefaultSuggestions();
+const SUGGESTION_OUTPUT: StructuredOutputSpec = {
+  name: 'autocompletion_suggestions',
+  dropInvalidItems: true,
+  schema: {
+    type: 'object',
+    properties: {
+      suggestions: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+            type: { type: 'string', enum: ['completion', 'continuation', 'replacement'] },
+            confidence: { type: 'number', minimum: 0, maximum: 1 },
+            preview: { type: 'string' },
+            original: { type: 'string', nullable: true, description: 'For replacements, the text being replaced' }
+          },
+          required: ['text', 'type', 'confidence']
+        }
+      }
+    },
+    required: ['suggestions']
   }
+};
 
-  return lines.map((line, index) => ({
-    id: uuidv4(),
-    text: line,
-    type: 'continuation' as const,
-    confidence: 0.6 - (index * 0.1),
-    preview: `AI suggestion ${index + 1}`
-  }));
+function toSuggestionItems(output: SuggestionOutput, maxSuggestions: number): SuggestionItem[] {
+  return output.suggestions
+    .filter((item) => item.text.length > 0)
+    .slice(0, maxSuggestions)
+    .map((item) => ({
+      id: uuidv4(),
+      text: item.text,
+      type: item.type,
+      confidence: item.confidence,
+      preview: item.preview || 'AI generated suggestion',
+      original: item.original || undefined
+    }));
 }
 
 /**
@@ -335,10 +610,25 @@ function createDefaultSuggestions(): SuggestionItem[] {
   }));
 }
 
+function offlineFallback(role: 'autocompletion' | 'prediction', error: any): SuggestionFallback {
+  const requested = getRoleModel(role);
+
+  return {
+    requestedProvider: requested.provider,
+    requestedModel: requested.model,
+    reason: error.message,
+    offline: true
+  };
+}
+
 /**
  * Alternative function for simple text prediction (without complex formatting)
+ * `fallback` is set when a fallback model answered or the prediction was made offline.
  */
-export const predictNextText = async (inputText: string, context?: string): Promise<string> => {
+export const predictNextText = async (
+  inputText: string,
+  context?: string
+): Promise<{ prediction: string; usage?: CreditUsage; fallback: SuggestionFallback | null }> => {
   try {
     const textAnalysis = analyzeTextForPrediction(inputText);
     
@@ -364,19 +654,20 @@ INSTRUCTIONS:
 
 CONTINUATION:`;
 
-    const prediction = await generateContent(prompt, 'gemini-2.0-flash-exp');
+    const result = await generateForRole('prediction', prompt);
     
-    const cleanedPrediction = cleanPrediction(prediction, inputText);
+    const cleanedPrediction = cleanPrediction(result.text, inputText);
     
-    return cleanedPrediction;
+    return {
+      prediction: cleanedPrediction,
+      usage: toCreditUsage(result.usage, result.model),
+      fallback: result.fallback ? { ...result.fallback, offline: false } : null
+    };
   } catch (error: any) {
     console.error('Error predicting next text:', error.message);
 
-    if (error.status === 429 || error.message?.includes('quota')) {
-      return generateAdvancedFallback(inputText, context);
-    }
-
-    return generateAdvancedFallback(inputText, context);
+    // Canned predictions carry no usage, so the request is not billed
+    return { prediction: generateAdvancedFallback(inputText, context), fallback: offlineFallback('prediction', error) };
   }
 };
 
@@ -0,0 +1,158 @@
+import { catchAsync, sendResponse, throwError, error_codes } from "../utils/httpWrapper";
+import { prisma } from "../db/prisma";
+import { AuthRequest } from "../types/auth.types";
+import { CreateShareLinkRequest, InviteCollaboratorRequest } from "../types/document.types";
+import { isCollaboratorRole, getAuthorizedDocument } from "../policies/document.policy";
+import {
+    createShareLink,
+    inviteCollaborator,
+    listCollaborators,
+    listShareLinks,
+    redeemShareLink
+} from "../services/sharing.service";
+import { refreshDocumentRoomAccess } from "../services/collaboration.service";
+
+export const getCollaborators = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+
+    const collaborators = await listCollaborators(document.id);
+
+    return sendResponse(res, collaborators, {
+        message: "Collaborators retrieved successfully",
+        count: collaborators.length
+    });
+});
+
+export const addCollaborator = catchAsync(async (req: AuthRequest, res) => {
+    const { email, role }: InviteCollaboratorRequest = req.body;
+
+    if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        throw throwError("A valid email is required", error_codes.BAD_REQUEST);
+    }
+
+    if (!isCollaboratorRole(role)) {
+        throw throwError("Invalid role. Must be one of: viewer, commenter, editor", error_codes.BAD_REQUEST);
+    }
+
+    const { document } = getAuthorizedDocument(req);
+
+    if (email.trim().toLowerCase() === req.user.email.toLowerCase()) {
+        throw throwError("You already own this document", error_codes.BAD_REQUEST);
+    }
+
+    const collaborator = await inviteCollaborator(document, email, role, req.user);
+    // Inviting someone who is already a collaborator changes their role
+    await refreshDocumentRoomAccess(document.id);
+
+    return sendResponse(res, collaborator, { message: "Collaborator invited successfully" });
+});
+
+export const updateCollaborator = catchAsync(async (req: AuthRequest, res) => {
+    const { role } = req.body;
+
+    if (!isCollaboratorRole(role)) {
+        throw throwError("Invalid role. Must be one of: viewer, commenter, editor", error_codes.BAD_REQUEST);
+    }
+
+    const { document } = getAuthorizedDocument(req);
+
+    const collaborator = await prisma.documentCollaborator.findFirst({
+        where: { id: parseInt(req.params.collaboratorId), documentId: document.id }
+    });
+
+    if (!collaborator) {
+        throw throwError("Collaborator not found", error_codes.NOT_FOUND);
+    }
+
+    const updated = await prisma.documentCollaborator.update({
+        where: { id: collaborator.id },
+        data: { role }
+    });
+    await refreshDocumentRoomAccess(document.id);
+
+    return sendResponse(res, updated, { message: "Collaborator updated successfully" });
+});
+
+export const removeCollaborator = catchAsync(async (req: AuthRequest, res) => {
+    const { document, role } = getAuthorizedDocument(req);
+
+    const collaborator = await prisma.documentCollaborator.findFirst({
+        where: { id: parseInt(req.params.collaboratorId), documentId: document.id }
+    });
+
+    if (!collaborator) {
+        throw throwError("Collaborator not found", error_codes.NOT_FOUND);
+    }
+
+    // Owners can remove anyone, collaborators can only leave
+    if (role !== 'owner' && collaborator.userId !== req.user.userId) {
+        throw throwError("Only the owner can remove collaborators", error_codes.FORBIDDEN);
+    }
+
+    await prisma.documentCollaborator.delete({
+        where: { id: collaborator.id }
+    });
+    await refreshDocumentRoomAccess(document.id);
+
+    return sendResponse(res, null, { message: "Collaborator removed successfully" });
+});
+
+export const getShareLinks = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+
+    const links = await listShareLinks(document.id);
+
+    return sendResponse(res, links, {
+        message: "Share links retrieved successfully",
+        count: links.length
+    });
+});
+
+export const addShareLink = catchAsync(async (req: AuthRequest, res) => {
+    const { role = 'viewer', expiresInDays }: CreateShareLinkRequest = req.body;
+
+    if (!isCollaboratorRole(role)) {
+        throw throwError("Invalid role. Must be one of: viewer, commenter, editor", error_codes.BAD_REQUEST);
+    }
+
+    if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays <= 0)) {
+        throw throwError("expiresInDays must be a positive integer", error_codes.BAD_REQUEST);
+    }
+
+    const { document } = getAuthorizedDocument(req);
+
+    const link = await createShareLink(document.id, role, req.user.userId, expiresInDays);
+
+    return sendResponse(res, link, { message: "Share link created successfully" });
+});
+
+export const revokeShareLink = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+
+    const link = await prisma.documentShareLink.findFirst({
+        where: { id: parseInt(req.params.linkId), documentId: document.id, revokedAt: null }
+    });
+
+    if (!link) {
+        throw throwError("Share link not found", error_codes.NOT_FOUND);
+    }
+
+    await prisma.documentShareLink.update({
+        where: { id: link.id },
+        data: { revokedAt: new Date() }
+    });
+
+    return sendResponse(res, null, { message: "Share link revoked successfully" });
+});
+
+export const joinSharedDocument = catchAsync(async (req: AuthRequest, res) => {
+    const result = await redeemShareLink(req.params.token, req.user);
+
+    if (!result) {
+        throw throwError("Share link is invalid or has been revoked", error_codes.GONE);
+    }
+
+    await refreshDocumentRoomAccess(result.document.id);
+
+    return sendResponse(res, result, { message: "Document shared with you successfully" });
+});
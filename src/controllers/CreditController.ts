@@ -0,0 +1,63 @@
+import { catchAsync, sendResponse, throwError, error_codes } from "../utils/httpWrapper";
+import { prisma } from "../db/prisma";
+import { AuthRequest } from "../types/auth.types";
+import { CreditBalanceResponse } from "../types/credit.types";
+import { CREDIT_COSTS } from "../config/credits";
+import { getCreditHistory, grantCredits } from "../services/credit.service";
+
+export const getCreditBalance = catchAsync(async (req: AuthRequest, res) => {
+    const user = await prisma.user.findUnique({
+        where: { id: req.user.userId },
+        select: { availableCredits: true, plan: true }
+    });
+
+    if (!user) {
+        throw throwError("User not found", error_codes.NOT_FOUND);
+    }
+
+    const balance: CreditBalanceResponse = {
+        availableCredits: user.availableCredits,
+        plan: user.plan,
+        costs: CREDIT_COSTS
+    };
+
+    return sendResponse(res, balance, { message: "Credit balance retrieved successfully" });
+});
+
+export const getCreditTransactions = catchAsync(async (req: AuthRequest, res) => {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const transactions = await getCreditHistory(req.user.userId, limit);
+
+    return sendResponse(res, transactions, {
+        message: "Credit history retrieved successfully",
+        count: transactions.length
+    });
+});
+
+/**
+ * Top up a user's credits (admin-only)
+ * POST /api/admin/credits/grant/:userId
+ */
+export const grantUserCredits = catchAsync(async (req: AuthRequest, res) => {
+    const userId = parseInt(req.params.userId);
+    const { amount } = req.body;
+
+    if (isNaN(userId)) {
+        throw throwError("Invalid user ID format", error_codes.BAD_REQUEST);
+    }
+
+    if (!Number.isInteger(amount) || amount <= 0) {
+        throw throwError("Amount must be a positive integer", error_codes.BAD_REQUEST);
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+        throw throwError("User not found", error_codes.NOT_FOUND);
+    }
+
+    const transaction = await grantCredits(userId, amount);
+
+    return sendResponse(res, transaction, { message: "Credits granted successfully" });
+});
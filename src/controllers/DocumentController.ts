@@ -1,24 +1,32 @@
+import { Prisma } from "@prisma/client";
 import { catchAsync, sendResponse, throwError, error_codes } from "../utils/httpWrapper";
 import { prisma } from "../db/prisma";
 import { AuthRequest } from "../types/auth.types";
+import { DocumentListView, DocumentSortKey } from "../types/document.types";
+import { createRevision, detectRevisionSource } from "../services/revision.service";
+import { getAuthorizedDocument } from "../policies/document.policy";
+import { parseIfMatch, versionETag } from "../utils/etag.utils";
+import { searchDocuments } from "../services/search.service";
+import { createUserDocument, listDocuments } from "../services/document.service";
+import { closeDocumentRoom, flushDocumentRoom, syncDocumentRoom } from "../services/collaboration.service";
+import { findUserFolder, getUserTags, normalizeTags } from "../services/folder.service";
+import {
+    TRASH_RETENTION_DAYS,
+    listTrashedDocuments,
+    purgeTrashedDocuments,
+    restoreTrashedDocument,
+    toTrashedSummary,
+    trashDocument
+} from "../services/trash.service";
 
 export const createDocument = catchAsync(async (req: AuthRequest, res) => {
-    const { title, content = "", chatHistory = [] } = req.body;
+    const { title, content = "", folderId = null, tags = [] } = req.body;
 
     if (!title) {
         throw throwError("Title is required", error_codes.BAD_REQUEST);
     }
 
-    const userId = req.user?.userId;
-
-    const document = await prisma.documents.create({
-        data: {
-            title,
-            content,
-            chatHistory: Array.isArray(chatHistory) ? chatHistory : [],
-            createdBy: userId || null
-        }
-    });
+    const document = await createUserDocument(req.user?.userId || null, { title, content, folderId, tags });
 
     return sendResponse(res, document, { message: "Document created successfully" });
 });
@@ -26,80 +34,274 @@ export const createDocument = catchAsync(async (req: AuthRequest, res) => {
 
 export const getAllDocuments = catchAsync(async (req: AuthRequest, res) => {
     const userId = req.user?.userId;
+    const {
+        sort = 'updatedAt',
+        order = 'desc',
+        view = 'full',
+        limit,
+        cursor,
+        folderId,
+        tag,
+        favorite
+    } = req.query as Record<string, string | undefined>;
 
-    const documents = await prisma.documents.findMany({
-        where: userId ? {
-            createdBy: userId
-        } : undefined,
-        orderBy: {
-            updatedAt: 'desc'
+    if (!['title', 'createdAt', 'updatedAt'].includes(sort)) {
+        throw throwError("Invalid sort. Must be one of: title, createdAt, updatedAt", error_codes.BAD_REQUEST);
+    }
+
+    if (!['asc', 'desc'].includes(order)) {
+        throw throwError("Invalid order. Must be one of: asc, desc", error_codes.BAD_REQUEST);
+    }
+
+    if (!['full', 'summary'].includes(view)) {
+        throw throwError("Invalid view. Must be one of: full, summary", error_codes.BAD_REQUEST);
+    }
+
+    const where: Prisma.DocumentsWhereInput = { createdBy: userId, deletedAt: null };
+
+    if (folderId !== undefined) {
+        // "root" lists documents that are not in any folder
+        where.folderId = folderId === 'root' ? null : (await findUserFolder(folderId, userId)).id;
+    }
+
+    if (tag) {
+        where.tags = { has: tag.trim().toLowerCase() };
+    }
+
+    if (favorite !== undefined) {
+        where.isFavorite = favorite === 'true';
+    }
+
+    const { documents, nextCursor, hasMore } = await listDocuments(
+        where,
+        {
+            sort: sort as DocumentSortKey,
+            order: order as 'asc' | 'desc',
+            view: view as DocumentListView,
+            limit: Math.min(Math.max(parseInt(limit as string) || 50, 1), 100),
+            cursor
         }
-    });
+    );
 
     return sendResponse(res, documents, {
         message: "Documents retrieved successfully",
-        count: documents.length
+        count: documents.length,
+        nextCursor,
+        hasMore
     });
 });
 
-export const getDocumentById = catchAsync(async (req: AuthRequest, res) => {
-    const { id } = req.params;
-
-    const document = await prisma.documents.findUnique({
+export const getSharedDocuments = catchAsync(async (req: AuthRequest, res) => {
+    const collaborations = await prisma.documentCollaborator.findMany({
         where: {
-            id: parseInt(id)
+            OR: [{ userId: req.user.userId }, { email: req.user.email.toLowerCase() }],
+            document: { deletedAt: null }
         },
+        include: { document: true },
+        orderBy: {
+            document: { updatedAt: 'desc' }
+        }
     });
 
-    if (!document) {
-        throw throwError("Document not found", error_codes.NOT_FOUND);
+    const documents = collaborations.map(({ document, role }) => ({ ...document, role }));
+
+    return sendResponse(res, documents, {
+        message: "Shared documents retrieved successfully",
+        count: documents.length
+    });
+});
+
+export const searchUserDocuments = catchAsync(async (req: AuthRequest, res) => {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    if (!query) {
+        throw throwError("Search query (q) is required", error_codes.BAD_REQUEST);
+    }
+
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        throw throwError("Invalid date range. Use ISO 8601 dates for from and to", error_codes.BAD_REQUEST);
     }
 
-    return sendResponse(res, document, { message: "Document retrieved successfully" });
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const results = await searchDocuments(req.user, { query, from, to, limit, offset });
+
+    return sendResponse(res, results, {
+        message: "Search completed successfully",
+        count: results.length
+    });
+});
+
+export const getDocumentById = catchAsync(async (req: AuthRequest, res) => {
+    const { document, role } = getAuthorizedDocument(req);
+
+    res.setHeader('ETag', versionETag(document.version));
+    return sendResponse(res, { ...document, role }, { message: "Document retrieved successfully" });
 });
 
 export const updateDocument = catchAsync(async (req: AuthRequest, res) => {
-    const { id } = req.params;
-    const { title, content, chatHistory } = req.body;
-    `   `
-    const existingDocument = await prisma.documents.findUnique({
-        where: { id: parseInt(id) }
-    });
+    const { title, content, version } = req.body;
 
-    if (!existingDocument) {
-        throw throwError("Document not found", error_codes.NOT_FOUND);
+    // If-Match takes precedence over a version field in the body
+    const ifMatchVersion = parseIfMatch(req.get('If-Match'));
+    const expectedVersion = ifMatchVersion !== undefined ? ifMatchVersion : version;
+
+    if (expectedVersion !== undefined && !Number.isInteger(expectedVersion)) {
+        throw throwError("Invalid version. Expected an integer or a version ETag", error_codes.BAD_REQUEST);
     }
 
-    const document = await prisma.documents.update({
-        where: {
-            id: parseInt(id)
-        },
-        data: {
-            ...(title && { title }),
-            ...(content !== undefined && { content }),
-            ...(chatHistory && { chatHistory: Array.isArray(chatHistory) ? chatHistory : [] })
+    const { document: existingDocument } = getAuthorizedDocument(req);
+
+    // Edits made in a live collaboration room count as newer content
+    await flushDocumentRoom(existingDocument.id);
+
+    const document = await prisma.$transaction(async (tx) => {
+        const result = await tx.documents.updateMany({
+            where: {
+                id: existingDocument.id,
+                ...(expectedVersion !== undefined && { version: expectedVersion })
+            },
+            data: {
+                ...(title && { title }),
+                ...(content !== undefined && { content }),
+                version: { increment: 1 }
+            }
+        });
+
+        if (result.count === 0) {
+            const current = await tx.documents.findUniqueOrThrow({
+                where: { id: existingDocument.id }
+            });
+
+            const error = throwError(
+                "Document has been modified since the given version",
+                ifMatchVersion !== undefined ? error_codes.PRECONDITION_FAILED : error_codes.CONFLICT
+            );
+            error.details = {
+                currentVersion: current.version,
+                document: current
+            };
+            throw error;
+        }
+
+        const updated = await tx.documents.findUniqueOrThrow({
+            where: { id: existingDocument.id }
+        });
+
+        if (updated.content !== existingDocument.content || updated.title !== existingDocument.title) {
+            await createRevision(tx, {
+                documentId: updated.id,
+                title: updated.title,
+                content: updated.content,
+                source: await detectRevisionSource(updated.id, existingDocument.content, updated.content),
+                createdBy: req.user?.userId || null
+            });
         }
+
+        return updated;
     });
 
+    await syncDocumentRoom(document.id, document.version, content !== undefined ? document.content : undefined);
+
+    res.setHeader('ETag', versionETag(document.version));
     return sendResponse(res, document, { message: "Document updated successfully" });
 });
 
 export const deleteDocument = catchAsync(async (req: AuthRequest, res) => {
-    const { id } = req.params;
+    const { document } = getAuthorizedDocument(req);
+
+    const trashed = await trashDocument(document.id);
+    await closeDocumentRoom(document.id);
+
+    return sendResponse(res, toTrashedSummary(trashed), { message: "Document moved to trash" });
+});
+
+export const getTrashedDocuments = catchAsync(async (req: AuthRequest, res) => {
+    const documents = await listTrashedDocuments(req.user.userId);
+
+    return sendResponse(res, documents, {
+        message: "Trashed documents retrieved successfully",
+        count: documents.length,
+        retentionDays: TRASH_RETENTION_DAYS
+    });
+});
+
+export const restoreDocument = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+
+    const restored = await restoreTrashedDocument(document.id);
+
+    return sendResponse(res, restored, { message: "Document restored successfully" });
+});
+
+export const purgeDocument = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+
+    await purgeTrashedDocuments(req.user.userId, document.id);
+
+    return sendResponse(res, null, { message: "Document permanently deleted" });
+});
 
-    const existingDocument = await prisma.documents.findUnique({
-        where: { id: parseInt(id) }
+export const emptyTrash = catchAsync(async (req: AuthRequest, res) => {
+    const count = await purgeTrashedDocuments(req.user.userId);
+
+    return sendResponse(res, { purgedDocuments: count }, { message: "Trash emptied successfully" });
+});
+
+export const moveDocument = catchAsync(async (req: AuthRequest, res) => {
+    const { folderId = null } = req.body;
+
+    const { document } = getAuthorizedDocument(req);
+
+    const folder = folderId !== null ? await findUserFolder(folderId, req.user.userId) : null;
+
+    const updated = await prisma.documents.update({
+        where: { id: document.id },
+        data: { folderId: folder?.id ?? null }
     });
 
-    if (!existingDocument) {
-        throw throwError("Document not found", error_codes.NOT_FOUND);
+    return sendResponse(res, updated, { message: "Document moved successfully" });
+});
+
+export const setDocumentFavorite = catchAsync(async (req: AuthRequest, res) => {
+    const { isFavorite } = req.body;
+
+    if (typeof isFavorite !== 'boolean') {
+        throw throwError("isFavorite must be a boolean", error_codes.BAD_REQUEST);
     }
 
-    await prisma.documents.delete({
-        where: {
-            id: parseInt(id)
-        }
+    const { document } = getAuthorizedDocument(req);
+
+    const updated = await prisma.documents.update({
+        where: { id: document.id },
+        data: { isFavorite }
     });
 
-    return sendResponse(res, null, { message: "Document deleted successfully" });
-});
\ No newline at end of file
+    return sendResponse(res, updated, { message: "Document favorite updated successfully" });
+});
+
+export const setDocumentTags = catchAsync(async (req: AuthRequest, res) => {
+    const tags = normalizeTags(req.body.tags);
+
+    const { document } = getAuthorizedDocument(req);
+
+    const updated = await prisma.documents.update({
+        where: { id: document.id },
+        data: { tags }
+    });
+
+    return sendResponse(res, updated, { message: "Document tags updated successfully" });
+});
+
+export const getDocumentTags = catchAsync(async (req: AuthRequest, res) => {
+    const tags = await getUserTags(req.user.userId);
+
+    return sendResponse(res, tags, {
+        message: "Tags retrieved successfully",
+        count: tags.length
+    });
+});
@@ -0,0 +1,23 @@
+import { catchAsync, throwError, error_codes } from "../utils/httpWrapper";
+import { AuthRequest } from "../types/auth.types";
+import { getAuthorizedDocument } from "../policies/document.policy";
+import { EXPORT_FORMATS, exportDocument, isExportFormat } from "../services/export.service";
+import { getFlushedDocument } from "../services/collaboration.service";
+
+export const exportDocumentFile = catchAsync(async (req: AuthRequest, res) => {
+    const { format } = req.query;
+
+    if (!isExportFormat(format)) {
+        throw throwError(`Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}`, error_codes.BAD_REQUEST);
+    }
+
+    // Include what collaborators typed since the last periodic save
+    const document = await getFlushedDocument(getAuthorizedDocument(req).document);
+
+    const file = await exportDocument(document, format);
+
+    res.attachment(file.filename);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Length', file.body.length);
+    return res.status(200).send(file.body);
+});
@@ -0,0 +1,81 @@
+import { catchAsync, sendResponse, throwError, error_codes } from "../utils/httpWrapper";
+import { prisma } from "../db/prisma";
+import { AuthRequest } from "../types/auth.types";
+import { assertValidParent, deleteFolder, findUserFolder } from "../services/folder.service";
+
+export const getFolders = catchAsync(async (req: AuthRequest, res) => {
+    const folders = await prisma.folder.findMany({
+        where: { ownerId: req.user.userId },
+        orderBy: { name: 'asc' },
+        include: {
+            // Trashed documents stay in their folder but are not counted
+            _count: { select: { documents: { where: { deletedAt: null } } } }
+        }
+    });
+
+    return sendResponse(res, folders, {
+        message: "Folders retrieved successfully",
+        count: folders.length
+    });
+});
+
+export const createFolder = catchAsync(async (req: AuthRequest, res) => {
+    const { name, parentId = null } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+        throw throwError("Folder name is required", error_codes.BAD_REQUEST);
+    }
+
+    const parent = parentId !== null ? await findUserFolder(parentId, req.user.userId) : null;
+
+    const folder = await prisma.folder.create({
+        data: {
+            name: name.trim(),
+            parentId: parent?.id ?? null,
+            ownerId: req.user.userId
+        }
+    });
+
+    return sendResponse(res, folder, { message: "Folder created successfully" });
+});
+
+export const updateFolder = catchAsync(async (req: AuthRequest, res) => {
+    const { name, parentId } = req.body;
+    const folder = await findUserFolder(req.params.id, req.user.userId);
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        throw throwError("Folder name cannot be empty", error_codes.BAD_REQUEST);
+    }
+
+    const parent = parentId !== undefined && parentId !== null
+        ? await findUserFolder(parentId, req.user.userId)
+        : null;
+
+    if (parent) {
+        await assertValidParent(folder.id, parent.id, req.user.userId);
+    }
+
+    const updated = await prisma.folder.update({
+        where: { id: folder.id },
+        data: {
+            ...(name !== undefined && { name: name.trim() }),
+            ...(parentId !== undefined && { parentId: parent?.id ?? null })
+        }
+    });
+
+    return sendResponse(res, updated, { message: "Folder updated successfully" });
+});
+
+export const removeFolder = catchAsync(async (req: AuthRequest, res) => {
+    const { mode } = req.query;
+
+    if (mode !== 'cascade' && mode !== 'move-to-root') {
+        throw throwError("Deleting a folder requires mode=cascade or mode=move-to-root", error_codes.BAD_REQUEST);
+    }
+
+    const folder = await findUserFolder(req.params.id, req.user.userId);
+
+    const result = await deleteFolder(folder.id, req.user.userId, mode);
+
+    return sendResponse(res, result, { message: "Folder deleted successfully" });
+});
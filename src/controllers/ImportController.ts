@@ -0,0 +1,30 @@
+import { catchAsync, sendResponse, throwError, error_codes } from "../utils/httpWrapper";
+import { AuthRequest } from "../types/auth.types";
+import { convertImportFile } from "../services/import.service";
+import { createUserDocument } from "../services/document.service";
+
+export const importDocumentFile = catchAsync(async (req: AuthRequest, res) => {
+    if (!req.file) {
+        throw throwError("A file is required in the 'file' field", error_codes.BAD_REQUEST);
+    }
+
+    const { title, folderId = null } = req.body;
+    // Multipart fields are strings, so tags are sent comma separated
+    const tags = typeof req.body.tags === 'string'
+        ? req.body.tags.split(',')
+        : req.body.tags ?? [];
+
+    const imported = await convertImportFile(req.file);
+
+    const document = await createUserDocument(req.user.userId, {
+        title: typeof title === 'string' && title.trim() ? title.trim() : imported.title,
+        content: imported.content,
+        folderId: folderId === '' ? null : folderId,
+        tags
+    });
+
+    return sendResponse(res, document, {
+        message: "Document imported successfully",
+        format: imported.format
+    });
+});
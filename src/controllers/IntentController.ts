@@ -0,0 +1,37 @@
+import { catchAsync, error_codes, sendResponse, throwError } from "../utils/httpWrapper";
+import { AuthRequest } from "../types/auth.types";
+import { classifyIntent, isIntent, recordIntentClassification } from "../services/intent.service";
+import { settleCredits } from "../services/credit.service";
+
+/**
+ * Classify a prompt as agent (write into the document) or ask (answer the user).
+ * Only LLM classifications are billed; keyword fallbacks and overrides are refunded.
+ */
+export const classifyPromptIntent = catchAsync(async (req: AuthRequest, res) => {
+    const { prompt, context, intent: override } = req.body;
+
+    if (!prompt || typeof prompt !== "string" || !prompt.trim()) {
+        throw throwError("Prompt is required", error_codes.BAD_REQUEST);
+    }
+
+    if (override !== undefined && !isIntent(override)) {
+        throw throwError("Invalid intent. Must be one of: agent, ask", error_codes.BAD_REQUEST);
+    }
+
+    const classification = await classifyIntent(prompt, {
+        override,
+        context: typeof context === "string" ? context : undefined
+    });
+    const id = await recordIntentClassification(req.user.userId, prompt, classification, req.document?.id);
+
+    await settleCredits(req.creditCharge, classification.usage);
+
+    return sendResponse(res, {
+        id,
+        intent: classification.intent,
+        confidence: classification.confidence,
+        source: classification.source,
+        model: classification.model ?? null,
+        fallbackReason: classification.fallbackReason ?? null
+    }, { message: "Intent classified successfully" });
+});
@@ -0,0 +1,14 @@
+import { catchAsync, sendResponse } from "../utils/httpWrapper";
+import { AuthRequest } from "../types/auth.types";
+import { getCounters } from "../services/metrics.service";
+import { getStructuredOutputStats } from "../services/llm/structured";
+
+/**
+ * In-process counters of this instance since it started (admin-only)
+ */
+export const getMetrics = catchAsync(async (req: AuthRequest, res) => {
+    return sendResponse(res, {
+        structuredOutput: getStructuredOutputStats(),
+        counters: getCounters()
+    }, { message: "Metrics retrieved successfully" });
+});
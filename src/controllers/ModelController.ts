@@ -0,0 +1,14 @@
+import { catchAsync, sendResponse } from "../utils/httpWrapper";
+import { AuthRequest } from "../types/auth.types";
+import { getModelCatalog, getUserPlan } from "../services/modelCatalog.service";
+
+export const getModels = catchAsync(async (req: AuthRequest, res) => {
+    const plan = await getUserPlan(req.user.userId);
+    const models = getModelCatalog(plan);
+
+    return sendResponse(res, models, {
+        message: "Models retrieved successfully",
+        count: models.length,
+        plan
+    });
+});
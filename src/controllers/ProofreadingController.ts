@@ -0,0 +1,94 @@
+import { catchAsync, error_codes, sendResponse, throwError } from "../utils/httpWrapper";
+import { AuthRequest } from "../types/auth.types";
+import { ProofreadingResponse } from "../types/proofreading.types";
+import { getAuthorizedDocument } from "../policies/document.policy";
+import {
+    dismissRule,
+    getDismissedRules,
+    isProofreadingRuleId,
+    listProofreadingRules,
+    proofreadContent,
+    restoreRule
+} from "../services/proofreading";
+import { settleCredits } from "../services/credit.service";
+import { getFlushedDocument } from "../services/collaboration.service";
+import { parseOffset } from "../utils/request.utils";
+
+/**
+ * Check a document, or the range start-end of its content, for spelling,
+ * grammar and style issues. Credits are only kept when the AI review ran.
+ */
+export const proofreadDocument = catchAsync(async (req: AuthRequest, res) => {
+    const { review = true } = req.body;
+
+    if (typeof review !== "boolean") {
+        throw throwError("review must be a boolean", error_codes.BAD_REQUEST);
+    }
+
+    // Issue offsets have to line up with the editor, which already shows the live room's unsaved edits
+    const document = await getFlushedDocument(getAuthorizedDocument(req).document);
+    const start = parseOffset(req.body.start, "start", 0);
+    const end = parseOffset(req.body.end, "end", document.content.length);
+
+    if (end < start || end > document.content.length) {
+        throw throwError(`The range must lie within the document (0-${document.content.length}) and end after it starts`, error_codes.BAD_REQUEST);
+    }
+
+    const dismissedRules = await getDismissedRules(document.id);
+    const result = await proofreadContent(document.content, { start, end }, { review, dismissedRules });
+
+    await settleCredits(req.creditCharge, result.usage);
+
+    const response: ProofreadingResponse = {
+        documentId: document.id,
+        range: { start, end },
+        issues: result.issues,
+        dismissedRules,
+        review: result.review
+    };
+
+    return sendResponse(res, response, {
+        message: "Document proofread successfully",
+        count: result.issues.length
+    });
+});
+
+export const getProofreadingRules = catchAsync(async (req: AuthRequest, res) => {
+    const rules = listProofreadingRules();
+
+    return sendResponse(res, rules, { message: "Proofreading rules retrieved successfully", count: rules.length });
+});
+
+export const getDismissedProofreadingRules = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+    const dismissedRules = await getDismissedRules(document.id);
+
+    return sendResponse(res, dismissedRules, { message: "Dismissed rules retrieved successfully" });
+});
+
+/**
+ * Stop reporting a rule for everyone working on the document
+ */
+export const dismissProofreadingRule = catchAsync(async (req: AuthRequest, res) => {
+    const { ruleId } = req.body;
+
+    if (!isProofreadingRuleId(ruleId)) {
+        throw throwError("Unknown rule. See GET /ai/proofread/rules for the available rules", error_codes.BAD_REQUEST);
+    }
+
+    const { document } = getAuthorizedDocument(req);
+    await dismissRule(document.id, ruleId, req.user.userId);
+
+    return sendResponse(res, await getDismissedRules(document.id), { message: "Rule dismissed successfully" });
+});
+
+export const restoreProofreadingRule = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+    const restored = await restoreRule(document.id, req.params.ruleId);
+
+    if (!restored) {
+        throw throwError("This rule is not dismissed for the document", error_codes.NOT_FOUND);
+    }
+
+    return sendResponse(res, await getDismissedRules(document.id), { message: "Rule restored successfully" });
+});
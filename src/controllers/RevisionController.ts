@@ -0,0 +1,90 @@
+import { catchAsync, sendResponse, throwError, error_codes } from "../utils/httpWrapper";
+import { AuthRequest } from "../types/auth.types";
+import { DiffGranularity, RevisionDiffResponse } from "../types/document.types";
+import { getLatestRevision, getRevision, listRevisions, restoreRevision } from "../services/revision.service";
+import { diffText } from "../utils/diff.utils";
+import { getAuthorizedDocument } from "../policies/document.policy";
+import { flushDocumentRoom, syncDocumentRoom } from "../services/collaboration.service";
+
+function parseVersion(value: any, name: string) {
+    const version = parseInt(value);
+    if (isNaN(version) || version < 1) {
+        throw throwError(`Invalid ${name}`, error_codes.BAD_REQUEST);
+    }
+    return version;
+}
+
+export const getDocumentRevisions = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+
+    const revisions = await listRevisions(document.id);
+
+    return sendResponse(res, revisions, {
+        message: "Revisions retrieved successfully",
+        count: revisions.length
+    });
+});
+
+export const getDocumentRevision = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+    const version = parseVersion(req.params.version, "version");
+
+    const revision = await getRevision(document.id, version);
+
+    if (!revision) {
+        throw throwError("Revision not found", error_codes.NOT_FOUND);
+    }
+
+    return sendResponse(res, revision, { message: "Revision retrieved successfully" });
+});
+
+export const diffDocumentRevisions = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+    const granularity = (req.query.granularity || 'line') as DiffGranularity;
+
+    if (!['line', 'word'].includes(granularity)) {
+        throw throwError("Invalid granularity. Must be one of: line, word", error_codes.BAD_REQUEST);
+    }
+
+    const fromVersion = parseVersion(req.query.from, "from version");
+    const fromRevision = await getRevision(document.id, fromVersion);
+    const toRevision = req.query.to
+        ? await getRevision(document.id, parseVersion(req.query.to, "to version"))
+        : await getLatestRevision(document.id);
+
+    if (!fromRevision || !toRevision) {
+        throw throwError("Revision not found", error_codes.NOT_FOUND);
+    }
+
+    const { changes, additions, deletions } = diffText(fromRevision.content, toRevision.content, granularity);
+
+    const diff: RevisionDiffResponse = {
+        documentId: document.id,
+        fromVersion: fromRevision.version,
+        toVersion: toRevision.version,
+        granularity,
+        additions,
+        deletions,
+        changes
+    };
+
+    return sendResponse(res, diff, { message: "Revision diff generated successfully" });
+});
+
+export const restoreDocumentRevision = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+    const version = parseVersion(req.params.version, "version");
+
+    // Keep what collaborators typed as a revision of its own before replacing it
+    await flushDocumentRoom(document.id);
+
+    const restored = await restoreRevision(document.id, version, req.user.userId);
+
+    if (!restored) {
+        throw throwError("Revision not found", error_codes.NOT_FOUND);
+    }
+
+    await syncDocumentRoom(document.id, restored.document.version, restored.document.content);
+
+    return sendResponse(res, restored, { message: "Revision restored successfully" });
+});
@@ -0,0 +1,173 @@
+import { catchAsync, sendResponse, throwError, error_codes } from "../utils/httpWrapper";
+import { prisma } from "../db/prisma";
+import { AuthRequest } from "../types/auth.types";
+import { CreateFromTemplateRequest, TemplateInput, TemplateScope } from "../types/template.types";
+import { getAuthorizedDocument } from "../policies/document.policy";
+import { createUserDocument } from "../services/document.service";
+import { settleCredits } from "../services/credit.service";
+import {
+    createTemplate,
+    findAccessibleTemplate,
+    findPersonalTemplate,
+    findSystemTemplate,
+    fillTemplateFromBrief,
+    listTemplates,
+    renderTemplate,
+    updateTemplate
+} from "../services/template.service";
+
+const MAX_BRIEF_LENGTH = 5000;
+
+/**
+ * Validate template fields from a request body. `name` is only required on create.
+ */
+function parseTemplateInput(body: any, requireName: boolean): TemplateInput {
+    const { name, description, category, content } = body;
+
+    if (requireName && (typeof name !== 'string' || !name.trim())) {
+        throw throwError("Name is required", error_codes.BAD_REQUEST);
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        throw throwError("Name must be a non-empty string", error_codes.BAD_REQUEST);
+    }
+
+    if (content !== undefined && typeof content !== 'string') {
+        throw throwError("Content must be a string", error_codes.BAD_REQUEST);
+    }
+
+    return {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description: description || null }),
+        ...(category !== undefined && { category: category ? String(category).trim().toLowerCase() : null }),
+        ...(content !== undefined && { content })
+    };
+}
+
+export const getTemplates = catchAsync(async (req: AuthRequest, res) => {
+    const { scope } = req.query;
+
+    if (scope !== undefined && scope !== 'system' && scope !== 'personal') {
+        throw throwError("Invalid scope. Must be one of: system, personal", error_codes.BAD_REQUEST);
+    }
+
+    const templates = await listTemplates(req.user.userId, scope as TemplateScope | undefined);
+
+    return sendResponse(res, templates, {
+        message: "Templates retrieved successfully",
+        count: templates.length
+    });
+});
+
+export const getTemplateById = catchAsync(async (req: AuthRequest, res) => {
+    const template = await findAccessibleTemplate(req.params.id, req.user.userId);
+
+    return sendResponse(res, template, { message: "Template retrieved successfully" });
+});
+
+export const createPersonalTemplate = catchAsync(async (req: AuthRequest, res) => {
+    const input = parseTemplateInput(req.body, true);
+
+    const template = await createTemplate(input, req.user.userId);
+
+    return sendResponse(res, template, { message: "Template created successfully" });
+});
+
+export const saveDocumentAsTemplate = catchAsync(async (req: AuthRequest, res) => {
+    const { document } = getAuthorizedDocument(req);
+    const input = parseTemplateInput({ name: document.title, ...req.body }, true);
+
+    const template = await createTemplate({ ...input, content: document.content }, req.user.userId);
+
+    return sendResponse(res, template, { message: "Template saved from document successfully" });
+});
+
+export const updatePersonalTemplate = catchAsync(async (req: AuthRequest, res) => {
+    const input = parseTemplateInput(req.body, false);
+    const template = await findPersonalTemplate(req.params.id, req.user.userId);
+
+    const updated = await updateTemplate(template, input);
+
+    return sendResponse(res, updated, { message: "Template updated successfully" });
+});
+
+export const deletePersonalTemplate = catchAsync(async (req: AuthRequest, res) => {
+    const template = await findPersonalTemplate(req.params.id, req.user.userId);
+
+    await prisma.documentTemplate.delete({
+        where: { id: template.id }
+    });
+
+    return sendResponse(res, null, { message: "Template deleted successfully" });
+});
+
+export const fillTemplate = catchAsync(async (req: AuthRequest, res) => {
+    const { brief } = req.body;
+
+    if (typeof brief !== 'string' || !brief.trim()) {
+        throw throwError("Brief is required", error_codes.BAD_REQUEST);
+    }
+
+    if (brief.length > MAX_BRIEF_LENGTH) {
+        throw throwError(`Brief can be at most ${MAX_BRIEF_LENGTH} characters long`, error_codes.BAD_REQUEST);
+    }
+
+    const template = await findAccessibleTemplate(req.params.id, req.user.userId);
+
+    const result = await fillTemplateFromBrief(template, brief.trim());
+
+    // Templates without variables are answered without calling the model
+    await settleCredits(req.creditCharge, result.usage);
+
+    return sendResponse(res, result, { message: "Template variables filled successfully" });
+});
+
+export const createDocumentFromTemplate = catchAsync(async (req: AuthRequest, res) => {
+    const { title, values = {}, folderId = null, tags = [] }: CreateFromTemplateRequest = req.body;
+
+    if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+        throw throwError("Values must be an object of variable names to text", error_codes.BAD_REQUEST);
+    }
+
+    const template = await findAccessibleTemplate(req.params.id, req.user.userId);
+    const content = renderTemplate(template.content, values);
+
+    const document = await createUserDocument(req.user.userId, {
+        title: typeof title === 'string' && title.trim() ? title.trim() : template.name,
+        content,
+        folderId,
+        tags
+    });
+
+    return sendResponse(res, document, { message: "Document created from template successfully" });
+});
+
+/**
+ * System templates (admin-only)
+ */
+export const createSystemTemplate = catchAsync(async (req: AuthRequest, res) => {
+    const input = parseTemplateInput(req.body, true);
+
+    const template = await createTemplate(input, null);
+
+    return sendResponse(res, template, { message: "System template created successfully" });
+});
+
+export const updateSystemTemplate = catchAsync(async (req: AuthRequest, res) => {
+    const input = parseTemplateInput(req.body, false);
+    const template = await findSystemTemplate(req.params.id);
+
+    const updated = await updateTemplate(template, input);
+
+    return sendResponse(res, updated, { message: "System template updated successfully" });
+});
+
+export const deleteSystemTemplate = catchAsync(async (req: AuthRequest, res) => {
+    const template = await findSystemTemplate(req.params.id);
+
+    await prisma.documentTemplate.delete({
+        where: { id: template.id }
+    });
+
+    return sendResponse(res, null, { message: "System template deleted successfully" });
+});
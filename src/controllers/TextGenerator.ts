@@ -1,40 +1,118 @@
 import { NextFunction, Response } from "express";
+import { ChatHistoryEntry } from "../types/gemini.types";
 import { AuthRequest } from "../types/auth.types";
-import { genAI } from "../initializers";
-import prisma from "../db/prisma";
 import { humanizeText } from "../utils/humanize.utils";
+import { cleanAgentResponse } from "../utils/agentResponse.utils";
+import { generateWith, streamWith } from "../services/llm";
+import { getUserPlan, resolveGenerationModel } from "../services/modelCatalog.service";
+import { LLMModelSelection, LLMUsage } from "../types/llm.types";
+import { onClientDisconnect, openSseStream, writeSseEvent } from "../utils/sse.utils";
+import { combineCreditUsage, refundCredits, settleCredits, toCreditUsage } from "../services/credit.service";
+import { getAuthorizedDocument } from "../policies/document.policy";
+import { classifyIntent, isIntent, recordIntentClassification } from "../services/intent.service";
+import { IntentClassification } from "../types/intent.types";
+import { appendChatExchange, clearDocumentChatMessages, getDocumentChatMessages, toPromptHistory } from "../services/chatHistory.service";
+
+/**
+ * Catalog model requested by the user, checked against their plan
+ * Errors carry the HTTP status in `errno` (400 unknown model, 403 not on the plan)
+ */
+async function resolveRequestedModel(userId: number, requested: unknown): Promise<LLMModelSelection> {
+  const plan = await getUserPlan(userId);
+  return resolveGenerationModel(requested, plan);
+}
+
+interface GenerationPromptOptions {
+  prompt: string;
+  context: string;
+  mode: string;
+  documentTitle?: string | null;
+  chatHistory: any[];
+}
+
+function buildGenerationPrompt({ prompt, context, mode, documentTitle, chatHistory }: GenerationPromptOptions) {
+  let fullPrompt = "";
+  let temperature = 0.7;
+
+  switch (mode) {
+    case "agent":
+      fullPrompt += "You are a writing assistant that generates content to be inserted directly into documents. ";
+      fullPrompt += "Generate ONLY the requested content without any explanatory text, introductions, or phrases like 'Here is the answer' or 'Here's what you requested'. ";
+      fullPrompt += "Your response should be ready to paste directly into the document. ";
+      fullPrompt += "Be concise and precise. Do not add any meta-commentary about your response.\n\n";
+      temperature = 0.5;
+      break;
+
+    case "ask":
+      fullPrompt += "You are a helpful AI assistant answering questions. ";
+      fullPrompt += "Provide clear, informative answers with explanations when needed. ";
+      fullPrompt += "You may include introductory phrases and structure your response for clarity.\n\n";
+      temperature = 0.7;
+      break;
+
+    case "auto":
+      fullPrompt += "You are a versatile AI assistant. ";
+      fullPrompt += "Adapt your response style based on the context and type of request. ";
+      fullPrompt += "For content generation requests, be direct. For questions, be explanatory.\n\n";
+      temperature = 0.7;
+      break;
+  }
+
+  if (context) {
+    fullPrompt += `Context: ${context}\n`;
+  }
+
+  if (documentTitle &&
+    documentTitle.trim() !== '' &&
+    documentTitle.toLowerCase() !== 'untitled document' &&
+    documentTitle.toLowerCase() !== 'untitled') {
+    fullPrompt += `Document Title: ${documentTitle}\n`;
+  }
 
-async function verifyDocumentOwnership(documentId: string, userId: number) {
-  const document = await prisma.documents.findUnique({
-    where: {
-      id: parseInt(documentId),
-      createdBy: userId
+  if (chatHistory.length > 0) {
+    fullPrompt += "Chat History:\n";
+
+    if (typeof chatHistory[0] === 'string') {
+      chatHistory.forEach((message: string, index: number) => {
+        const role = index % 2 === 0 ? 'User' : 'Assistant';
+        fullPrompt += `${role}: ${message}\n`;
+      });
+    } else {
+      chatHistory.forEach((msg: any) => {
+        fullPrompt += `${msg.role || 'User'}: ${msg.content || msg}\n`;
+      });
     }
-  });
 
-  if (!document) {
-    throw new Error('Document not found or access denied');
+    fullPrompt += "\n";
   }
 
-  return document;
+  fullPrompt += `Request: ${prompt}`;
+
+  if (mode === "agent") {
+    fullPrompt += "\n\nRemember: Respond with ONLY the content requested, no explanatory text or introductions.";
+  }
+
+  return { fullPrompt, temperature };
 }
 
-async function updateDocumentChatHistory(documentId: string, userMessage: string, aiResponse: string, currentHistory: string[] = []) {
-  const updatedChatHistory = [
-    ...currentHistory,
-    `User: ${userMessage}`,
-    `AI: ${aiResponse}`
-  ];
+function resolveGeneratedText(rawText: string, mode: string, classification: IntentClassification | null) {
+  let text = rawText;
+  let shouldInsert = false;
+  let detectedIntent = mode;
+
+  if (mode === "agent") {
+    text = cleanAgentResponse(text);
+    shouldInsert = true;
+  } else if (mode === "auto" && classification) {
+    detectedIntent = classification.intent;
+    shouldInsert = classification.intent === "agent";
 
-  await prisma.documents.update({
-    where: { id: parseInt(documentId) },
-    data: {
-      chatHistory: updatedChatHistory,
-      updatedAt: new Date()
+    if (shouldInsert) {
+      text = cleanAgentResponse(text);
     }
-  });
+  }
 
-  return updatedChatHistory;
+  return { text, shouldInsert, detectedIntent };
 }
 
 export const generateText = async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -49,7 +127,9 @@ export const generateText = async (req: AuthRequest, res: Response, next: NextFu
       maxTokens = 500,
       chatHistory = [],
       mode = "auto",
-      documentId
+      documentId,
+      model: requestedModel,
+      intent: intentOverride
     } = req.body;
 
     if (!prompt) {
@@ -63,129 +143,75 @@ export const generateText = async (req: AuthRequest, res: Response, next: NextFu
       });
     }
 
-    let document = null;
-    let documentChatHistory: string[] = [];
-
-    if (documentId) {
-      try {
-        document = await verifyDocumentOwnership(documentId, req.user.userId);
-        documentChatHistory = document.chatHistory || [];
-      } catch (error: any) {
-        return res.status(404).json({ error: error.message });
-      }
-    }
-
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
-
-    let fullPrompt = "";
-    let temperature = 0.7;
-
-    switch (mode) {
-      case "agent":
-        fullPrompt += "You are a writing assistant that generates content to be inserted directly into documents. ";
-        fullPrompt += "Generate ONLY the requested content without any explanatory text, introductions, or phrases like 'Here is the answer' or 'Here's what you requested'. ";
-        fullPrompt += "Your response should be ready to paste directly into the document. ";
-        fullPrompt += "Be concise and precise. Do not add any meta-commentary about your response.\n\n";
-        temperature = 0.5;
-        break;
-
-      case "ask":
-        fullPrompt += "You are a helpful AI assistant answering questions. ";
-        fullPrompt += "Provide clear, informative answers with explanations when needed. ";
-        fullPrompt += "You may include introductory phrases and structure your response for clarity.\n\n";
-        temperature = 0.7;
-        break;
-
-      case "auto":
-        fullPrompt += "You are a versatile AI assistant. ";
-        fullPrompt += "Adapt your response style based on the context and type of request. ";
-        fullPrompt += "For content generation requests, be direct. For questions, be explanatory.\n\n";
-        temperature = 0.7;
-        break;
-    }
-
-    if (context) {
-      fullPrompt += `Context: ${context}\n`;
+    // Only used in auto mode, where it replaces the classifier's decision
+    if (intentOverride !== undefined && !isIntent(intentOverride)) {
+      return res.status(400).json({ error: "Invalid intent. Must be one of: agent, ask" });
     }
 
-    if (document && document.title &&
-      document.title.trim() !== '' &&
-      document.title.toLowerCase() !== 'untitled document' &&
-      document.title.toLowerCase() !== 'untitled') {
-      fullPrompt += `Document Title: ${document.title}\n`;
-    }
-
-    const effectiveChatHistory = document ? documentChatHistory : chatHistory;
-
-    if (effectiveChatHistory.length > 0) {
-      fullPrompt += "Chat History:\n";
-
-      if (typeof effectiveChatHistory[0] === 'string') {
-        effectiveChatHistory.forEach((message: string, index: number) => {
-          const role = index % 2 === 0 ? 'User' : 'Assistant';
-          fullPrompt += `${role}: ${message}\n`;
-        });
-      } else {
-        effectiveChatHistory.forEach((msg: any) => {
-          fullPrompt += `${msg.role || 'User'}: ${msg.content || msg}\n`;
-        });
+    let selection: LLMModelSelection;
+    try {
+      selection = await resolveRequestedModel(req.user.userId, requestedModel);
+    } catch (error: any) {
+      if (!error.type) {
+        throw error;
       }
-
-      fullPrompt += "\n";
+      return res.status(error.errno).json({ error: error.message });
     }
 
-    fullPrompt += `Request: ${prompt}`;
-
-    if (mode === "agent") {
-      fullPrompt += "\n\nRemember: Respond with ONLY the content requested, no explanatory text or introductions.";
-    }
+    // Document access is enforced by the authorizeDocument policy on the route
+    const document = req.document || null;
+    const documentChatHistory: ChatHistoryEntry[] = document ? await getDocumentChatMessages(document.id) : [];
 
-    const result = await model.generateContent({
-      contents: [{ role: "user", parts: [{ text: fullPrompt }] }],
-      generationConfig: {
-        maxOutputTokens: maxTokens,
-        temperature: temperature,
-      },
+    const { fullPrompt, temperature } = buildGenerationPrompt({
+      prompt,
+      context,
+      mode,
+      documentTitle: document?.title,
+      chatHistory: document ? toPromptHistory(documentChatHistory) : chatHistory
     });
 
-    let text = result.response.text();
-    let shouldInsert = false;
-    let detectedIntent = mode;
+    // The intent only decides how the answer is used, so it is classified alongside generation
+    const pendingIntent = mode === "auto" ? classifyIntent(prompt, { override: intentOverride, context }) : null;
 
-    if (mode === "agent") {
-      text = cleanAgentResponse(text);
-      shouldInsert = true;
-    } else if (mode === "auto") {
-      const isContentGeneration = detectContentGenerationIntent(prompt);
-
-      if (isContentGeneration) {
-        text = cleanAgentResponse(text);
-        shouldInsert = true;
-        detectedIntent = "agent";
-      } else {
-        shouldInsert = false;
-        detectedIntent = "ask";
-      }
+    const result = await generateWith(selection, fullPrompt, {
+      maxOutputTokens: maxTokens,
+      temperature: temperature,
+    });
+
+    const classification = pendingIntent ? await pendingIntent : null;
+    const { text, shouldInsert, detectedIntent } = resolveGeneratedText(result.text, mode, classification);
+    if (classification) {
+      await recordIntentClassification(req.user.userId, prompt, classification, document?.id);
     }
+    const usage = toCreditUsage(result.usage, result.model);
+
+    // An LLM intent classification is billed with the generation
+    await settleCredits(req.creditCharge, combineCreditUsage(usage, classification?.usage));
 
     let chatHistoryLength = null;
     if (document) {
-      const updatedChatHistory = await updateDocumentChatHistory(
-        documentId,
+      chatHistoryLength = await appendChatExchange(document.id, {
         prompt,
-        text,
-        document.chatHistory || []
-      );
-      chatHistoryLength = updatedChatHistory.length;
+        response: text,
+        mode: detectedIntent,
+        model: usage.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens
+      });
     }
 
     return res.status(200).json({
       success: true,
       text,
-      model: "gemini-2.0-flash-exp",
+      model: result.model,
+      provider: result.provider,
+      // Set when the requested model failed and the fallback model answered
+      fallback: result.fallback || null,
       mode: mode,
       shouldInsert: shouldInsert,
       detectedIntent: detectedIntent,
+      intentConfidence: classification?.confidence ?? null,
+      intentSource: classification?.source ?? null,
       userId: req.user.userId,
       documentId: documentId || null,
       documentTitle: document?.title || null,
@@ -207,6 +233,13 @@ export const generateText = async (req: AuthRequest, res: Response, next: NextFu
       });
     }
 
+    if (error.status === 503 || error.status === 504) {
+      return res.status(error.status).json({
+        error: "The AI service is temporarily unavailable. Please try again shortly.",
+        details: error.message
+      });
+    }
+
     return res.status(500).json({
       error: "Failed to generate text",
       details: error.message
@@ -214,86 +247,182 @@ export const generateText = async (req: AuthRequest, res: Response, next: NextFu
   }
 };
 
-function cleanAgentResponse(text: string): string {
-  const prefixesToRemove = [
-    /^(Here is|Here's|Here are)\s+/i,
-    /^(The answer is|The response is|The text is)\s*:?\s*/i,
-    /^(I'll|I will|Let me)\s+.*?:\s*/i,
-    /^(Based on|According to).*?,\s*/i,
-    /^(Sure|Certainly|Of course)[,!.]\s*/i,
-    /^(Here you go|There you go)[,!.]\s*/i,
-    /^(As requested)[,!.]\s*/i
-  ];
-
-  let cleanText = text.trim();
-
-  for (const prefix of prefixesToRemove) {
-    cleanText = cleanText.replace(prefix, '');
+/**
+ * Streaming variant of generateText using Server-Sent Events.
+ * Emits `token` events as chunks arrive and a final `done` event; the document
+ * chat history is only persisted once the stream has completed.
+ */
+export const generateTextStream = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ error: "Authentication required" });
   }
 
-  const suffixesToRemove = [
-    /\s+(Hope this helps!?|Let me know if you need.*|Feel free to.*|Is there anything else.*)\s*$/i,
-    /\s+(I hope this is what you were looking for.*|Does this meet your needs.*)\s*$/i
-  ];
+  const {
+    prompt,
+    context = "",
+    maxTokens = 500,
+    chatHistory = [],
+    mode = "auto",
+    documentId,
+    model: requestedModel,
+    intent: intentOverride
+  } = req.body;
+
+  if (!prompt) {
+    return res.status(400).json({ error: "Prompt is required" });
+  }
 
-  for (const suffix of suffixesToRemove) {
-    cleanText = cleanText.replace(suffix, '');
+  const validModes = ["agent", "ask", "auto"];
+  if (!validModes.includes(mode)) {
+    return res.status(400).json({
+      error: "Invalid mode. Must be one of: agent, ask, auto"
+    });
   }
 
-  cleanText = cleanText.replace(/\n\n\n+/g, '\n\n');
+  if (intentOverride !== undefined && !isIntent(intentOverride)) {
+    return res.status(400).json({ error: "Invalid intent. Must be one of: agent, ask" });
+  }
 
-  return cleanText.trim();
-}
+  let selection: LLMModelSelection;
+  try {
+    selection = await resolveRequestedModel(req.user.userId, requestedModel);
+  } catch (error: any) {
+    if (!error.type) {
+      console.error("Error resolving model:", error);
+    }
+    return res.status(error.errno || 500).json({ error: error.type ? error.message : "Failed to generate text" });
+  }
+
+  // Document access is enforced by the authorizeDocument policy on the route
+  const document = req.document || null;
+  let documentChatHistory: ChatHistoryEntry[] = [];
+
+  if (document) {
+    try {
+      documentChatHistory = await getDocumentChatMessages(document.id);
+    } catch (error: any) {
+      console.error("Error loading chat history:", error);
+      return res.status(500).json({ error: "Failed to load document chat history" });
+    }
+  }
 
-function detectContentGenerationIntent(prompt: string): boolean {
-  const lowerPrompt = prompt.toLowerCase().trim();
+  const { fullPrompt, temperature } = buildGenerationPrompt({
+    prompt,
+    context,
+    mode,
+    documentTitle: document?.title,
+    chatHistory: document ? toPromptHistory(documentChatHistory) : chatHistory
+  });
 
-  const contentGenerationIndicators = [
-    'write', 'create', 'generate', 'compose', 'draft', 'make', 'build',
-    'design', 'develop', 'craft', 'produce', 'formulate',
+  let clientClosed = false;
+  onClientDisconnect(res, () => {
+    clientClosed = true;
+  });
 
-    'paragraph', 'sentence', 'story', 'article', 'essay', 'letter', 'email',
-    'report', 'summary', 'description', 'content', 'text', 'copy',
-    'introduction', 'conclusion', 'heading', 'title', 'subject line',
-    'bullet points', 'list', 'outline', 'script', 'dialogue',
+  try {
+    const pendingIntent = mode === "auto" ? classifyIntent(prompt, { override: intentOverride, context }) : null;
 
-    'give me a', 'provide a', 'show me a', 'come up with',
-    'help me write', 'help me create', 'i need a', 'i want a'
-  ];
+    const { stream, provider, model, fallback } = await streamWith(selection, fullPrompt, {
+      maxOutputTokens: maxTokens,
+      temperature: temperature,
+    });
 
-  const questionIndicators = [
-    'what', 'how', 'why', 'when', 'where', 'who', 'which', 'whose',
+    openSseStream(res);
 
-    'can you explain', 'what is', 'what are', 'how do', 'how does',
-    'why do', 'why does', 'when should', 'where can', 'who is',
-    'is it', 'are there', 'do you', 'does it', 'will it', 'would it',
-    'should i', 'could you', 'tell me about', 'explain'
-  ];
+    let rawText = "";
+    let streamUsage: LLMUsage | undefined;
+    for await (const chunk of stream) {
+      if (clientClosed) {
+        break;
+      }
 
-  const hasContentGeneration = contentGenerationIndicators.some(indicator =>
-    lowerPrompt.includes(indicator)
-  );
+      if (chunk.text) {
+        rawText += chunk.text;
+        writeSseEvent(res, "token", { text: chunk.text });
+      }
+      streamUsage = chunk.usage || streamUsage;
+    }
 
-  const hasQuestionPattern = questionIndicators.some(indicator =>
-    lowerPrompt.includes(indicator)
-  );
+    const classification = pendingIntent ? await pendingIntent : null;
 
-  const endsWithQuestionMark = lowerPrompt.endsWith('?');
+    // Leaving the loop early aborts the upstream request. What was already
+    // generated is billed; nothing goes into the chat history.
+    if (clientClosed) {
+      await settleCredits(
+        req.creditCharge,
+        rawText ? combineCreditUsage(toCreditUsage(streamUsage, model), classification?.usage) : undefined
+      );
+      res.end();
+      return;
+    }
 
-  if (hasContentGeneration && !endsWithQuestionMark) {
-    return true;
-  }
+    const { text, shouldInsert, detectedIntent } = resolveGeneratedText(rawText, mode, classification);
+    if (classification) {
+      await recordIntentClassification(req.user.userId, prompt, classification, document?.id);
+    }
+    const usage = toCreditUsage(streamUsage, model);
 
-  if (hasQuestionPattern || endsWithQuestionMark) {
-    return false;
-  }
+    await settleCredits(req.creditCharge, combineCreditUsage(usage, classification?.usage));
 
-  if (lowerPrompt.length < 50 && hasContentGeneration) {
-    return true;
-  }
+    let chatHistoryLength = null;
+    if (document) {
+      chatHistoryLength = await appendChatExchange(document.id, {
+        prompt,
+        response: text,
+        mode: detectedIntent,
+        model: usage.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens
+      });
+    }
 
-  return false;
-}
+    writeSseEvent(res, "done", {
+      success: true,
+      text,
+      model,
+      provider,
+      fallback: fallback || null,
+      mode: mode,
+      shouldInsert: shouldInsert,
+      detectedIntent: detectedIntent,
+      intentConfidence: classification?.confidence ?? null,
+      intentSource: classification?.source ?? null,
+      userId: req.user.userId,
+      documentId: documentId || null,
+      documentTitle: document?.title || null,
+      chatHistoryLength
+    });
+    res.end();
+  } catch (error: any) {
+    console.error("Error streaming text:", error);
+
+    let status = 500;
+    let message = "Failed to generate text";
+
+    if (error.message?.includes('API key') || error.message?.includes('API_KEY')) {
+      status = 401;
+      message = "Invalid API key. Please check your GEMINI_API_KEY in .env file";
+    } else if (error.status === 429 || error.message?.includes('quota')) {
+      status = 429;
+      message = "API quota exceeded. Please try again later.";
+    } else if (error.status === 503 || error.status === 504) {
+      status = error.status;
+      message = "The AI service is temporarily unavailable. Please try again shortly.";
+    }
+
+    if (!res.headersSent) {
+      return res.status(status).json({ error: message, details: error.message });
+    }
+
+    // The SSE response already went out as 200, so the automatic refund does not apply
+    if (req.creditCharge) {
+      await refundCredits(req.creditCharge);
+    }
+
+    writeSseEvent(res, "error", { status, error: message, details: error.message });
+    res.end();
+  }
+};
 
 export const getDocumentChatHistory = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -302,25 +431,17 @@ export const getDocumentChatHistory = async (req: AuthRequest, res: Response, ne
     }
 
     const { documentId } = req.params;
+    const { document } = getAuthorizedDocument(req);
+    const chatHistory = await getDocumentChatMessages(document.id);
 
-    if (!documentId) {
-      return res.status(400).json({ error: 'Document ID is required' });
-    }
-
-    try {
-      const document = await verifyDocumentOwnership(documentId, req.user.userId);
-
-      return res.status(200).json({
-        success: true,
-        documentId,
-        documentTitle: document.title,
-        chatHistory: document.chatHistory || [],
-        chatHistoryLength: document.chatHistory?.length || 0,
-        lastUpdated: document.updatedAt
-      });
-    } catch (error: any) {
-      return res.status(404).json({ error: error.message });
-    }
+    return res.status(200).json({
+      success: true,
+      documentId,
+      documentTitle: document.title,
+      chatHistory,
+      chatHistoryLength: chatHistory.length,
+      lastUpdated: document.updatedAt
+    });
   } catch (error: any) {
     console.error('Get document chat history error:', error);
     return res.status(500).json({
@@ -337,30 +458,15 @@ export const clearDocumentChatHistory = async (req: AuthRequest, res: Response,
     }
 
     const { documentId } = req.params;
+    const { document } = getAuthorizedDocument(req);
 
-    if (!documentId) {
-      return res.status(400).json({ error: 'Document ID is required' });
-    }
-
-    try {
-      await verifyDocumentOwnership(documentId, req.user.userId);
-
-      await prisma.documents.update({
-        where: { id: parseInt(documentId) },
-        data: {
-          chatHistory: [],
-          updatedAt: new Date()
-        }
-      });
+    await clearDocumentChatMessages(document.id);
 
-      return res.status(200).json({
-        success: true,
-        documentId,
-        message: 'Chat history cleared successfully'
-      });
-    } catch (error: any) {
-      return res.status(404).json({ error: error.message });
-    }
+    return res.status(200).json({
+      success: true,
+      documentId,
+      message: 'Chat history cleared successfully'
+    });
   } catch (error: any) {
     console.error('Clear document chat history error:', error);
     return res.status(500).json({
@@ -426,6 +532,11 @@ export const humanizeAIText = async (req: AuthRequest, res: Response, next: Next
       });
     }
 
+    await settleCredits(req.creditCharge, {
+      model,
+      providerCredits: result.credits_used
+    });
+
     return res.status(200).json({
       success: true,
       humanized_text: result.humanized_text,
@@ -0,0 +1,123 @@
+import { catchAsync, error_codes, sendResponse, throwError } from "../utils/httpWrapper";
+import { AuthRequest } from "../types/auth.types";
+import { DiffGranularity } from "../types/document.types";
+import { TransformResponse } from "../types/transform.types";
+import { getAuthorizedDocument } from "../policies/document.policy";
+import { getUserPlan, resolveGenerationModel } from "../services/modelCatalog.service";
+import { isTransformOperation, isTransformTone, TRANSFORM_OPERATIONS, TRANSFORM_TONES, transformText } from "../services/transform.service";
+import { settleCredits, toCreditUsage } from "../services/credit.service";
+import { appendChatExchange } from "../services/chatHistory.service";
+import { getFlushedDocument } from "../services/collaboration.service";
+import { diffText } from "../utils/diff.utils";
+import { isBalancedHtmlFragment, isHtmlContent, sanitizeContentHtml, splitsHtmlMarkup } from "../utils/content.utils";
+import { parseOffset } from "../utils/request.utils";
+
+const MAX_SELECTION_LENGTH = 10000;
+const MAX_LANGUAGE_LENGTH = 50;
+
+/**
+ * Run a one-click edit (rephrase, shorten, translate...) on a selected range of
+ * a document and return the replacement with a diff against the original.
+ * Offsets are into the stored document content and may not cut through its
+ * markup or cross element boundaries; `selectedText`, when sent, guards
+ * against offsets computed from an outdated copy of the document. HTML replacements are sanitized like imports.
+ */
+export const transformSelection = catchAsync(async (req: AuthRequest, res) => {
+    const { operation, tone, language, selectedText, granularity = "word", model: requestedModel } = req.body;
+
+    if (!isTransformOperation(operation)) {
+        throw throwError(`Invalid operation. Must be one of: ${Object.keys(TRANSFORM_OPERATIONS).join(", ")}`, error_codes.BAD_REQUEST);
+    }
+
+    if (operation === "change-tone" && !isTransformTone(tone)) {
+        throw throwError(`Invalid tone. Must be one of: ${TRANSFORM_TONES.join(", ")}`, error_codes.BAD_REQUEST);
+    }
+
+    if (operation === "translate" && (typeof language !== "string" || !language.trim() || language.length > MAX_LANGUAGE_LENGTH)) {
+        throw throwError("A target language is required for translate", error_codes.BAD_REQUEST);
+    }
+
+    if (granularity !== "word" && granularity !== "line") {
+        throw throwError("Invalid granularity. Must be one of: word, line", error_codes.BAD_REQUEST);
+    }
+
+    const start = parseOffset(req.body.start, "start");
+    const end = parseOffset(req.body.end, "end");
+    // Offsets come from the editor, which already shows the live room's unsaved edits
+    const document = await getFlushedDocument(getAuthorizedDocument(req).document);
+
+    if (end < start || end > document.content.length) {
+        throw throwError(`The selection must lie within the document (0-${document.content.length}) and end after it starts`, error_codes.BAD_REQUEST);
+    }
+
+    if (splitsHtmlMarkup(document.content, start) || splitsHtmlMarkup(document.content, end)) {
+        throw throwError("The selection must not start or end inside an HTML tag or character reference", error_codes.BAD_REQUEST);
+    }
+
+    const original = document.content.substring(start, end);
+
+    // Sanitizing would close or drop the unmatched tags, changing markup outside the selection
+    if (isHtmlContent(document.content) && !isBalancedHtmlFragment(original)) {
+        throw throwError("The selection must not cross the start or end of an HTML element", error_codes.BAD_REQUEST);
+    }
+
+    // An empty selection is only meaningful when continuing from the cursor
+    if (!original.trim() && operation !== "continue") {
+        throw throwError("The selection is empty", error_codes.BAD_REQUEST);
+    }
+
+    if (original.length > MAX_SELECTION_LENGTH) {
+        throw throwError(`The selection can be at most ${MAX_SELECTION_LENGTH} characters long`, error_codes.BAD_REQUEST);
+    }
+
+    if (selectedText !== undefined && selectedText !== original) {
+        throw throwError("The selection no longer matches the document, reload it and try again", error_codes.CONFLICT);
+    }
+
+    const plan = await getUserPlan(req.user.userId);
+    const selection = resolveGenerationModel(requestedModel, plan);
+
+    const transformed = await transformText(selection, {
+        operation,
+        tone,
+        language: language?.trim(),
+        selectedText: original,
+        before: document.content.substring(0, start),
+        after: document.content.substring(end)
+    });
+    const { result } = transformed;
+
+    // Model output ends up in the document, so it is held to the same markup rules as imports
+    const replacement = isHtmlContent(document.content) ? sanitizeContentHtml(transformed.replacement) : transformed.replacement;
+
+    const usage = toCreditUsage(result.usage, result.model);
+    await settleCredits(req.creditCharge, usage);
+
+    const { changes, additions, deletions } = diffText(original, replacement, granularity as DiffGranularity);
+
+    const label = TRANSFORM_OPERATIONS[operation].label;
+    const detail = operation === "change-tone" ? ` (${tone})` : operation === "translate" ? ` (${language.trim()})` : "";
+    const chatHistoryLength = await appendChatExchange(document.id, {
+        prompt: `${label}${detail}: ${original}`,
+        response: replacement,
+        mode: `transform:${operation}`,
+        model: usage.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens
+    });
+
+    const response: TransformResponse = {
+        documentId: document.id,
+        operation,
+        range: { start, end },
+        original,
+        replacement,
+        diff: { granularity, additions, deletions, changes },
+        model: result.model,
+        provider: result.provider,
+        fallback: result.fallback || null,
+        chatHistoryLength
+    };
+
+    return sendResponse(res, response, { message: "Selection transformed successfully" });
+});
@@ -0,0 +1,49 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../types/auth.types';
+import { CreditOperation } from '../types/credit.types';
+import { chargeCredits, refundCredits } from '../services/credit.service';
+
+interface RequireCreditsOptions {
+  // Whether the request will call a model; requests answered locally are free
+  when?: (req: AuthRequest) => boolean;
+}
+
+/**
+ * Middleware to charge credits for a metered operation
+ * Must be used after authenticateToken middleware. The charge is refunded
+ * automatically if the request ends with an error status.
+ */
+export function requireCredits(operation: CreditOperation, options: RequireCreditsOptions = {}) {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (options.when && !options.when(req)) {
+      next();
+      return;
+    }
+
+    try {
+      const charge = await chargeCredits(req.user.userId, operation);
+      req.creditCharge = charge;
+
+      res.on('finish', () => {
+        if (res.statusCode >= 400) {
+          void refundCredits(charge);
+        }
+      });
+
+      next();
+    } catch (error: any) {
+      if (error.errno === 402) {
+        res.status(402).json({ error: error.message, ...error.details });
+        return;
+      }
+
+      console.error('Credit charge error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
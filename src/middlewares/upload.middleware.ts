@@ -0,0 +1,46 @@
+import { Response, NextFunction } from 'express';
+import multer from 'multer';
+import { AuthRequest } from '../types/auth.types';
+import { error_codes } from '../utils/httpWrapper';
+
+const MAX_IMPORT_FILE_SIZE_MB = parseInt(process.env.IMPORT_MAX_FILE_SIZE_MB || '10');
+
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_FILE_SIZE_MB * 1024 * 1024,
+    files: 1
+  }
+}).single('file');
+
+/**
+ * Middleware to accept a single document upload in the `file` field
+ * Files are kept in memory and rejected with 413 above IMPORT_MAX_FILE_SIZE_MB.
+ */
+export function uploadImportFile(req: AuthRequest, res: Response, next: NextFunction): void {
+  importUpload(req, res, (error: any) => {
+    if (!error) {
+      next();
+      return;
+    }
+
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE'
+        ? error_codes.PAYLOAD_TOO_LARGE
+        : error_codes.BAD_REQUEST;
+
+      res.status(status.status_code).json({
+        success: false,
+        message: error.code === 'LIMIT_FILE_SIZE'
+          ? `File is too large. The maximum size is ${MAX_IMPORT_FILE_SIZE_MB} MB`
+          : error.message,
+        type: status.type,
+        errno: status.status_code
+      });
+      return;
+    }
+
+    console.error('Upload error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  });
+}
@@ -0,0 +1,167 @@
+import { Response, NextFunction } from 'express';
+import { prisma } from '../db/prisma';
+import { AuthRequest, TokenPayload } from '../types/auth.types';
+import { CollaboratorRole, DocumentRole, DocumentState } from '../types/document.types';
+import { error_codes, throwError } from '../utils/httpWrapper';
+
+const ROLE_RANK: Record<DocumentRole, number> = {
+  viewer: 1,
+  commenter: 2,
+  editor: 3,
+  owner: 4,
+};
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['viewer', 'commenter', 'editor'];
+
+export function isCollaboratorRole(role: any): role is CollaboratorRole {
+  return COLLABORATOR_ROLES.includes(role);
+}
+
+export function hasDocumentRole(role: DocumentRole, required: DocumentRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Resolve the role a user holds on a document, or null without access.
+ * Invitations sent to an email before the account existed are linked here.
+ */
+export async function getDocumentRole(
+  document: { id: number; createdBy: number | null },
+  user: TokenPayload
+): Promise<DocumentRole | null> {
+  if (document.createdBy === user.userId) {
+    return 'owner';
+  }
+
+  const collaborator = await prisma.documentCollaborator.findFirst({
+    where: {
+      documentId: document.id,
+      OR: [{ userId: user.userId }, { email: user.email.toLowerCase() }]
+    }
+  });
+
+  if (!collaborator) {
+    return null;
+  }
+
+  if (collaborator.userId === null) {
+    await prisma.documentCollaborator.update({
+      where: { id: collaborator.id },
+      data: { userId: user.userId }
+    });
+  }
+
+  return collaborator.role as DocumentRole;
+}
+
+/**
+ * Load a document and make sure the user holds at least the required role.
+ * Users without any access get a 404 so document ids are not leaked.
+ * Trashed documents are treated as missing unless `state` is "trashed".
+ */
+export async function requireDocumentRole(
+  documentId: number | string,
+  user: TokenPayload,
+  required: DocumentRole,
+  state: DocumentState = 'active'
+) {
+  const id = typeof documentId === 'string' ? parseInt(documentId) : documentId;
+
+  const document = isNaN(id) ? null : await prisma.documents.findFirst({
+    where: {
+      id,
+      deletedAt: state === 'trashed' ? { not: null } : null
+    }
+  });
+
+  if (!document) {
+    throw throwError('Document not found', error_codes.NOT_FOUND);
+  }
+
+  const role = await getDocumentRole(document, user);
+
+  if (!role) {
+    throw throwError('Document not found', error_codes.NOT_FOUND);
+  }
+
+  if (!hasDocumentRole(role, required)) {
+    throw throwError(`This action requires ${required} access to the document`, error_codes.FORBIDDEN);
+  }
+
+  return { document, role };
+}
+
+interface AuthorizeDocumentOptions {
+  // Where the document id is read from, e.g. `params.id` or `body.documentId`
+  source?: 'params' | 'body';
+  key?: string;
+  // Let requests without a document id through unauthorized (document context is optional)
+  optional?: boolean;
+  // Routes operating on the trash match trashed documents only
+  state?: DocumentState;
+}
+
+/**
+ * Middleware enforcing the document policy on a route
+ * Must be used after authenticateToken middleware. The authorized document and
+ * role are attached to the request; failures use the same 404/403 semantics as
+ * requireDocumentRole.
+ */
+export function authorizeDocument(required: DocumentRole, options: AuthorizeDocumentOptions = {}) {
+  const { source = 'params', key = 'id', optional = false, state = 'active' } = options;
+
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const documentId = req[source]?.[key];
+
+    if (documentId === undefined || documentId === null || documentId === '') {
+      if (optional) {
+        next();
+        return;
+      }
+      res.status(400).json({
+        success: false,
+        message: 'Document ID is required',
+        type: error_codes.BAD_REQUEST.type,
+        errno: error_codes.BAD_REQUEST.status_code
+      });
+      return;
+    }
+
+    try {
+      const { document, role } = await requireDocumentRole(documentId, req.user, required, state);
+      req.document = document;
+      req.documentRole = role;
+      next();
+    } catch (error: any) {
+      if (error.type) {
+        res.status(error.errno).json({
+          success: false,
+          message: error.message,
+          type: error.type,
+          errno: error.errno
+        });
+        return;
+      }
+
+      console.error('Document authorization error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+/**
+ * Read the document attached by authorizeDocument
+ * Throws if the route was not registered behind the policy middleware.
+ */
+export function getAuthorizedDocument(req: AuthRequest) {
+  if (!req.document || !req.documentRole) {
+    throw throwError('Document policy was not applied to this route', error_codes.INTERNAL_SERVER_ERROR);
+  }
+
+  return { document: req.document, role: req.documentRole };
+}
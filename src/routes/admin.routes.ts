@@ -10,6 +10,9 @@ import {
     getUserAccessList
 } from '../controllers/AdminController';
 import { createAdmin, adminLogin } from '../controllers/Authentication';
+import { grantUserCredits } from '../controllers/CreditController';
+import { getMetrics } from '../controllers/MetricsController';
+import { createSystemTemplate, updateSystemTemplate, deleteSystemTemplate } from '../controllers/TemplateController';
 import { authenticateToken, requireAdmin } from '../middlewares/auth.middleware';
 
 const router = Router();
@@ -36,4 +39,14 @@ router.get('/user/list', getUserAccessList);
 
 router.delete('/beta/remove/:email', removeBetaEmail);
 
+router.post('/credits/grant/:userId', grantUserCredits);
+
+router.post('/templates', createSystemTemplate);
+
+router.put('/templates/:id', updateSystemTemplate);
+
+router.delete('/templates/:id', deleteSystemTemplate);
+
+router.get('/metrics', getMetrics);
+
 export default router;
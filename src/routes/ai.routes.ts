@@ -1,12 +1,27 @@
 import { Router } from "express";
-import { generateText, getDocumentChatHistory, clearDocumentChatHistory, humanizeAIText } from "../controllers/TextGenerator";
+import { generateText, generateTextStream, getDocumentChatHistory, clearDocumentChatHistory, humanizeAIText } from "../controllers/TextGenerator";
+import { getModels } from "../controllers/ModelController";
+import { classifyPromptIntent } from "../controllers/IntentController";
+import { transformSelection } from "../controllers/TransformController";
+import { getProofreadingRules, proofreadDocument } from "../controllers/ProofreadingController";
 import { authenticateToken } from "../middlewares/auth.middleware";
+import { requireCredits } from "../middlewares/credits.middleware";
+import { authorizeDocument } from "../policies/document.policy";
 
 const routes = Router();
 
-routes.post("/generate-text", authenticateToken, generateText);
-routes.post("/humanize", authenticateToken, humanizeAIText);
-routes.get("/document-chat-history/:documentId", authenticateToken, getDocumentChatHistory);
-routes.delete("/document-chat-history/:documentId", authenticateToken, clearDocumentChatHistory);
+const authorizeGenerationDocument = authorizeDocument("commenter", { source: "body", key: "documentId", optional: true });
+
+routes.get("/models", authenticateToken, getModels);
+routes.post("/generate-text", authenticateToken, authorizeGenerationDocument, requireCredits("ai.generate-text"), generateText);
+routes.post("/generate-text/stream", authenticateToken, authorizeGenerationDocument, requireCredits("ai.generate-text"), generateTextStream);
+routes.post("/classify-intent", authenticateToken, authorizeGenerationDocument, requireCredits("ai.classify-intent"), classifyPromptIntent);
+routes.post("/transform", authenticateToken, authorizeDocument("editor", { source: "body", key: "documentId" }), requireCredits("ai.transform"), transformSelection);
+routes.get("/proofread/rules", authenticateToken, getProofreadingRules);
+// Proofreading without the AI review only runs the local rules, so it is not metered
+routes.post("/proofread", authenticateToken, authorizeDocument("commenter", { source: "body", key: "documentId" }), requireCredits("ai.proofread", { when: (req) => req.body?.review !== false }), proofreadDocument);
+routes.post("/humanize", authenticateToken, requireCredits("ai.humanize"), humanizeAIText);
+routes.get("/document-chat-history/:documentId", authenticateToken, authorizeDocument("viewer", { key: "documentId" }), getDocumentChatHistory);
+routes.delete("/document-chat-history/:documentId", authenticateToken, authorizeDocument("editor", { key: "documentId" }), clearDocumentChatHistory);
 
 export default routes;
\ No newline at end of file
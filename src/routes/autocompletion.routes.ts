@@ -1,11 +1,18 @@
 import { Router } from 'express';
-import { getAutocompletionSuggestions, predictNextText } from '../controllers/AutocompletionController';
-import { optionalAuthentication } from '../middlewares/auth.middleware';
+import { getAutocompletionSuggestions, predictNextText, streamAutocompletionSuggestions } from '../controllers/AutocompletionController';
+import { authenticateToken } from '../middlewares/auth.middleware';
+import { requireCredits } from '../middlewares/credits.middleware';
+import { settleCredits } from '../services/credit.service';
+import { AuthRequest } from '../types/auth.types';
 
 const router = Router();
 
-router.post('/suggestions', optionalAuthentication, getAutocompletionSuggestions);
-router.post('/predict', optionalAuthentication, async (req, res) => {
+// The contextual strategy only uses the phrase model and heuristics, so it is not metered
+const chargeSuggestions = requireCredits('autocompletion.suggestions', { when: (req) => req.body?.strategy !== 'contextual' });
+
+router.post('/suggestions', authenticateToken, chargeSuggestions, getAutocompletionSuggestions);
+router.post('/suggestions/stream', authenticateToken, chargeSuggestions, streamAutocompletionSuggestions);
+router.post('/predict', authenticateToken, requireCredits('autocompletion.predict'), async (req: AuthRequest, res) => {
     try {
         const { text, context } = req.body;
 
@@ -17,7 +24,26 @@ router.post('/predict', optionalAuthentication, async (req, res) => {
             });
         }
 
-        const prediction = await predictNextText(text, context);
+        if (context !== undefined && typeof context !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Context must be a string',
+                data: null
+            });
+        }
+
+        // The context goes into the prompt too, so it counts towards the limit
+        if (text.length + (context?.length ?? 0) > 10000) {
+            return res.status(400).json({
+                success: false,
+                message: 'Text is too long. Maximum 10,000 characters allowed',
+                data: null
+            });
+        }
+
+        const { prediction, usage, fallback } = await predictNextText(text, context);
+
+        await settleCredits(req.creditCharge, usage);
 
         res.json({
             success: true,
@@ -25,7 +51,8 @@ router.post('/predict', optionalAuthentication, async (req, res) => {
             data: {
                 originalText: text,
                 prediction,
-                context: context || null
+                context: context || null,
+                fallback
             }
         });
     } catch (error) {
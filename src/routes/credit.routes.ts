@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { getCreditBalance, getCreditTransactions } from '../controllers/CreditController';
+import { authenticateToken } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+router.get('/', authenticateToken, getCreditBalance);
+router.get('/history', authenticateToken, getCreditTransactions);
+
+export default router;
@@ -2,17 +2,84 @@ import { Router } from 'express';
 import {
     createDocument,
     getAllDocuments,
+    getSharedDocuments,
+    searchUserDocuments,
     getDocumentById,
     updateDocument,
-    deleteDocument
+    deleteDocument,
+    getTrashedDocuments,
+    restoreDocument,
+    purgeDocument,
+    emptyTrash,
+    moveDocument,
+    setDocumentFavorite,
+    setDocumentTags,
+    getDocumentTags
 } from '../controllers/DocumentController';
+import {
+    getDocumentRevisions,
+    getDocumentRevision,
+    diffDocumentRevisions,
+    restoreDocumentRevision
+} from '../controllers/RevisionController';
+import {
+    getCollaborators,
+    addCollaborator,
+    updateCollaborator,
+    removeCollaborator,
+    getShareLinks,
+    addShareLink,
+    revokeShareLink,
+    joinSharedDocument
+} from '../controllers/CollaboratorController';
+import { exportDocumentFile } from '../controllers/ExportController';
+import { importDocumentFile } from '../controllers/ImportController';
+import {
+    getDismissedProofreadingRules,
+    dismissProofreadingRule,
+    restoreProofreadingRule
+} from '../controllers/ProofreadingController';
 import { authenticateToken } from '../middlewares/auth.middleware';
+import { uploadImportFile } from '../middlewares/upload.middleware';
+import { authorizeDocument } from '../policies/document.policy';
 
 const router = Router();
 router.post('/', authenticateToken, createDocument);
 router.get('/', authenticateToken, getAllDocuments);
-router.get('/:id', authenticateToken, getDocumentById);
-router.put('/:id', authenticateToken, updateDocument);
-router.delete('/:id', authenticateToken, deleteDocument);
+router.post('/import', authenticateToken, uploadImportFile, importDocumentFile);
+router.get('/search', authenticateToken, searchUserDocuments);
+router.get('/shared', authenticateToken, getSharedDocuments);
+router.get('/tags', authenticateToken, getDocumentTags);
+router.get('/trash', authenticateToken, getTrashedDocuments);
+router.delete('/trash', authenticateToken, emptyTrash);
+router.post('/shared/:token/join', authenticateToken, joinSharedDocument);
+router.get('/:id', authenticateToken, authorizeDocument('viewer'), getDocumentById);
+router.put('/:id', authenticateToken, authorizeDocument('editor'), updateDocument);
+router.delete('/:id', authenticateToken, authorizeDocument('owner'), deleteDocument);
+router.put('/:id/folder', authenticateToken, authorizeDocument('owner'), moveDocument);
+router.put('/:id/favorite', authenticateToken, authorizeDocument('owner'), setDocumentFavorite);
+router.put('/:id/tags', authenticateToken, authorizeDocument('owner'), setDocumentTags);
+router.post('/:id/restore', authenticateToken, authorizeDocument('owner', { state: 'trashed' }), restoreDocument);
+router.delete('/:id/purge', authenticateToken, authorizeDocument('owner', { state: 'trashed' }), purgeDocument);
+
+router.get('/:id/export', authenticateToken, authorizeDocument('viewer'), exportDocumentFile);
+
+router.get('/:id/revisions', authenticateToken, authorizeDocument('viewer'), getDocumentRevisions);
+router.get('/:id/revisions/diff', authenticateToken, authorizeDocument('viewer'), diffDocumentRevisions);
+router.get('/:id/revisions/:version', authenticateToken, authorizeDocument('viewer'), getDocumentRevision);
+router.post('/:id/revisions/:version/restore', authenticateToken, authorizeDocument('editor'), restoreDocumentRevision);
+
+router.get('/:id/collaborators', authenticateToken, authorizeDocument('viewer'), getCollaborators);
+router.post('/:id/collaborators', authenticateToken, authorizeDocument('owner'), addCollaborator);
+router.put('/:id/collaborators/:collaboratorId', authenticateToken, authorizeDocument('owner'), updateCollaborator);
+router.delete('/:id/collaborators/:collaboratorId', authenticateToken, authorizeDocument('viewer'), removeCollaborator);
+
+router.get('/:id/share-links', authenticateToken, authorizeDocument('owner'), getShareLinks);
+router.post('/:id/share-links', authenticateToken, authorizeDocument('owner'), addShareLink);
+router.delete('/:id/share-links/:linkId', authenticateToken, authorizeDocument('owner'), revokeShareLink);
+
+router.get('/:id/proofreading/dismissed-rules', authenticateToken, authorizeDocument('viewer'), getDismissedProofreadingRules);
+router.post('/:id/proofreading/dismissed-rules', authenticateToken, authorizeDocument('editor'), dismissProofreadingRule);
+router.delete('/:id/proofreading/dismissed-rules/:ruleId', authenticateToken, authorizeDocument('editor'), restoreProofreadingRule);
 
 export default router;
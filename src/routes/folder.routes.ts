@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import {
+    getFolders,
+    createFolder,
+    updateFolder,
+    removeFolder
+} from '../controllers/FolderController';
+import { authenticateToken } from '../middlewares/auth.middleware';
+
+const router = Router();
+router.get('/', authenticateToken, getFolders);
+router.post('/', authenticateToken, createFolder);
+router.put('/:id', authenticateToken, updateFolder);
+router.delete('/:id', authenticateToken, removeFolder);
+
+export default router;
@@ -5,6 +5,9 @@ import AIRoutes from "./ai.routes";
 import documentRoutes from "./document.routes";
 import autocompletionRoutes from "./autocompletion.routes";
 import adminRoutes from "./admin.routes";
+import creditRoutes from "./credit.routes";
+import folderRoutes from "./folder.routes";
+import templateRoutes from "./template.routes";
 
 const AppRoot = Router();
 
@@ -13,8 +16,11 @@ AppRoot.get("/ping", pingPong);
 AppRoot.use("/auth", authRoutes);
 AppRoot.use("/ai/", AIRoutes);
 AppRoot.use("/documents", documentRoutes);
+AppRoot.use("/folders", folderRoutes);
+AppRoot.use("/templates", templateRoutes);
 AppRoot.use("/autocompletion", autocompletionRoutes);
 AppRoot.use("/admin", adminRoutes);
+AppRoot.use("/credits", creditRoutes);
 
 
 export default AppRoot;
\ No newline at end of file
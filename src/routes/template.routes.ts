@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import {
+    getTemplates,
+    getTemplateById,
+    createPersonalTemplate,
+    saveDocumentAsTemplate,
+    updatePersonalTemplate,
+    deletePersonalTemplate,
+    fillTemplate,
+    createDocumentFromTemplate
+} from '../controllers/TemplateController';
+import { authenticateToken } from '../middlewares/auth.middleware';
+import { requireCredits } from '../middlewares/credits.middleware';
+import { authorizeDocument } from '../policies/document.policy';
+
+const router = Router();
+router.get('/', authenticateToken, getTemplates);
+router.post('/', authenticateToken, createPersonalTemplate);
+router.post('/from-document/:documentId', authenticateToken, authorizeDocument('viewer', { key: 'documentId' }), saveDocumentAsTemplate);
+router.get('/:id', authenticateToken, getTemplateById);
+router.put('/:id', authenticateToken, updatePersonalTemplate);
+router.delete('/:id', authenticateToken, deletePersonalTemplate);
+router.post('/:id/fill', authenticateToken, requireCredits('templates.fill'), fillTemplate);
+router.post('/:id/documents', authenticateToken, createDocumentFromTemplate);
+
+export default router;
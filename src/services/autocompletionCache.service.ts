@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { CacheStore } from '../types/cache.types';
+import { LLMModelSelection } from '../types/llm.types';
+import { SuggestionItem } from '../types/autocompletion.types';
+import { MemoryLRUStore, RedisCacheStore } from './cache.service';
+
+const CACHE_URL = process.env.AUTOCOMPLETION_CACHE_URL;
+const CACHE_TTL_MS = parseInt(process.env.AUTOCOMPLETION_CACHE_TTL_MS || '300000');
+const CACHE_MAX_ENTRIES = parseInt(process.env.AUTOCOMPLETION_CACHE_MAX_ENTRIES || '1000');
+
+export interface AutocompletionCacheInput {
+  userId?: number;
+  beforeCursor: string;
+  afterCursor: string;
+  context: string;
+  documentType: string;
+  maxSuggestions: number;
+  fillInMiddle: boolean;
+  model: LLMModelSelection;
+}
+
+interface CachedSuggestions {
+  suggestions: SuggestionItem[];
+  cachedAt: number;
+}
+
+/**
+ * A Redis-compatible server when AUTOCOMPLETION_CACHE_URL is set (shared by
+ * all instances), otherwise the in-memory LRU
+ */
+function createStore(): CacheStore {
+  if (!CACHE_URL) {
+    return new MemoryLRUStore(CACHE_MAX_ENTRIES);
+  }
+
+  // Commands fail fast while the server is unreachable and count as misses
+  const client = new Redis(CACHE_URL, { maxRetriesPerRequest: 1, enableOfflineQueue: false });
+  client.on('error', (error) => console.warn('Autocompletion cache connection error:', error.message));
+
+  return new RedisCacheStore(client);
+}
+
+let store: CacheStore = createStore();
+
+/**
+ * Swap the configured store, e.g. for a custom CacheStore implementation
+ */
+export function setAutocompletionCacheStore(cacheStore: CacheStore) {
+  store = cacheStore;
+}
+
+function normalizeText(text: string) {
+  return text.normalize('NFC').replace(/\s+/g, ' ');
+}
+
+/**
+ * Hash of everything that shapes the prompt. Whitespace runs are collapsed
+ * but kept, since "the" and "the " complete differently. Entries are scoped
+ * to the user when there is one so suggestions never leak between accounts.
+ */
+export function buildAutocompletionCacheKey(input: AutocompletionCacheInput): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([
+      normalizeText(input.beforeCursor),
+      normalizeText(input.afterCursor),
+      normalizeText(input.context).trim(),
+      input.documentType.toLowerCase(),
+      input.maxSuggestions,
+      input.fillInMiddle,
+      input.model.provider,
+      input.model.model
+    ]))
+    .digest('hex');
+
+  return `autocompletion:${input.userId ?? 'anonymous'}:${hash}`;
+}
+
+/**
+ * Cached suggestions with fresh ids, or null on a miss. Store failures are
+ * treated as misses so a cache outage never breaks autocompletion.
+ */
+export async function getCachedSuggestions(key: string): Promise<{ suggestions: SuggestionItem[]; ageMs: number } | null> {
+  try {
+    const cached = await store.get(key);
+
+    if (!cached) {
+      return null;
+    }
+
+    const { suggestions, cachedAt }: CachedSuggestions = JSON.parse(cached);
+
+    return {
+      suggestions: suggestions.map((suggestion) => ({ ...suggestion, id: uuidv4() })),
+      ageMs: Date.now() - cachedAt
+    };
+  } catch (error: any) {
+    console.warn('Autocompletion cache read failed:', error.message);
+    return null;
+  }
+}
+
+export async function cacheSuggestions(key: string, suggestions: SuggestionItem[]) {
+  try {
+    const entry: CachedSuggestions = { suggestions, cachedAt: Date.now() };
+    await store.set(key, JSON.stringify(entry), CACHE_TTL_MS);
+  } catch (error: any) {
+    console.warn('Autocompletion cache write failed:', error.message);
+  }
+}
@@ -0,0 +1,71 @@
+import { CacheStore, RedisLikeClient } from '../types/cache.types';
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-process LRU store; the least recently read entry is evicted once
+ * `maxEntries` is reached. Map iteration order doubles as recency order.
+ */
+export class MemoryLRUStore implements CacheStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Store backed by any Redis-compatible server, shared between instances.
+ * Expiry is left to the server (SET ... PX).
+ */
+export class RedisCacheStore implements CacheStore {
+  constructor(private readonly client: RedisLikeClient, private readonly prefix = 'scripelle:') {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.prefix + key);
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.set(this.prefix + key, value, 'PX', ttlMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
@@ -0,0 +1,67 @@
+import { prisma } from '../db/prisma';
+import { ChatExchange, ChatHistoryEntry } from '../types/gemini.types';
+
+/**
+ * Get the chat messages of a document in conversation order
+ */
+export async function getDocumentChatMessages(documentId: number): Promise<ChatHistoryEntry[]> {
+  const messages = await prisma.chatMessage.findMany({
+    where: { documentId },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+  });
+
+  return messages as ChatHistoryEntry[];
+}
+
+/**
+ * Persist a user prompt and the AI reply as two chat messages
+ * @returns The number of messages in the document's chat history
+ */
+export async function appendChatExchange(documentId: number, exchange: ChatExchange): Promise<number> {
+  const now = Date.now();
+
+  await prisma.$transaction([
+    prisma.chatMessage.create({
+      data: {
+        documentId,
+        role: 'user',
+        content: exchange.prompt,
+        mode: exchange.mode,
+        model: exchange.model,
+        promptTokens: exchange.promptTokens,
+        createdAt: new Date(now)
+      }
+    }),
+    prisma.chatMessage.create({
+      data: {
+        documentId,
+        role: 'ai',
+        content: exchange.response,
+        mode: exchange.mode,
+        model: exchange.model,
+        completionTokens: exchange.completionTokens,
+        createdAt: new Date(now + 1)
+      }
+    }),
+    prisma.documents.update({
+      where: { id: documentId },
+      data: { updatedAt: new Date() }
+    })
+  ]);
+
+  return prisma.chatMessage.count({ where: { documentId } });
+}
+
+export async function clearDocumentChatMessages(documentId: number) {
+  await prisma.chatMessage.deleteMany({ where: { documentId } });
+}
+
+/**
+ * Convert stored messages into the role/content pairs used in prompts
+ */
+export function toPromptHistory(messages: ChatHistoryEntry[]) {
+  return messages.map((message) => ({
+    role: message.role === 'user' ? 'User' : 'Assistant',
+    content: message.content
+  }));
+}
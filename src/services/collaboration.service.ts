@@ -0,0 +1,500 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { Documents } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { verifyAccessToken } from '../utils/auth.utils';
+import { TokenPayload } from '../types/auth.types';
+import { hasDocumentRole, requireDocumentRole } from '../policies/document.policy';
+import { createRevision } from './revision.service';
+import { setXmlFragmentContent, xmlFragmentToHtml } from '../utils/yxml.utils';
+
+// Message types follow the y-websocket protocol so its client provider can be used as-is
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+const COLLABORATION_PATH = /^\/api\/v1\/collaboration\/(\d+)\/?$/;
+const PERSIST_INTERVAL_MS = parseInt(process.env.COLLAB_PERSIST_INTERVAL_MS || '10000');
+const HEARTBEAT_INTERVAL_MS = 30000;
+// The shared type the editor binds to (Tiptap's Collaboration extension uses "default")
+const COLLABORATION_FIELD = process.env.COLLAB_FIELD || 'default';
+// Origin of changes made by the server itself, which need no saving
+const SERVER_ORIGIN = Symbol('server');
+
+interface CollaborationConnection {
+  user: TokenPayload;
+  readOnly: boolean;
+  // When the access token the socket was opened with expires, in ms
+  expiresAt: number | null;
+  awarenessIds: Set<number>;
+  isAlive: boolean;
+}
+
+interface CollaborationRoom {
+  documentId: number;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  connections: Map<WebSocket, CollaborationConnection>;
+  dirty: boolean;
+  // Documents.version the room's state is based on
+  version: number;
+  // The save currently being written, if any
+  saving: Promise<void> | null;
+  lastEditorId: number | null;
+  persistTimer: NodeJS.Timeout;
+  destroyed: boolean;
+}
+
+const rooms = new Map<number, Promise<CollaborationRoom>>();
+
+function send(room: CollaborationRoom, socket: WebSocket, message: Uint8Array) {
+  if (socket.readyState !== WebSocket.OPEN) {
+    closeConnection(room, socket);
+    return;
+  }
+
+  socket.send(message, (error) => {
+    if (error) {
+      closeConnection(room, socket);
+    }
+  });
+}
+
+function broadcast(room: CollaborationRoom, message: Uint8Array) {
+  room.connections.forEach((_, socket) => send(room, socket, message));
+}
+
+/**
+ * Replace the room's state with the stored document, e.g. after it was saved
+ * outside the room. Connected clients receive the change as a normal update.
+ */
+function loadIntoRoom(room: CollaborationRoom, content: string, version: number) {
+  setXmlFragmentContent(room.doc.getXmlFragment(COLLABORATION_FIELD), content, SERVER_ORIGIN);
+  room.version = version;
+  room.dirty = false;
+}
+
+/**
+ * Write the merged CRDT state back to Documents.content as a new revision.
+ * The write only applies if the document is still at the version the room is
+ * based on; otherwise it was saved elsewhere and the room reloads that save.
+ * Saves run one at a time: a call made while one is in flight waits for it,
+ * then saves whatever was typed in the meantime.
+ */
+async function persistRoom(room: CollaborationRoom) {
+  while (room.saving) {
+    await room.saving;
+  }
+
+  if (!room.dirty) {
+    return;
+  }
+
+  room.saving = saveRoom(room).finally(() => {
+    room.saving = null;
+  });
+  await room.saving;
+}
+
+async function saveRoom(room: CollaborationRoom) {
+  room.dirty = false;
+
+  const content = xmlFragmentToHtml(room.doc.getXmlFragment(COLLABORATION_FIELD));
+
+  try {
+    const document = await prisma.$transaction(async (tx) => {
+      const result = await tx.documents.updateMany({
+        where: { id: room.documentId, version: room.version },
+        data: {
+          content,
+          version: { increment: 1 }
+        }
+      });
+
+      if (result.count === 0) {
+        return null;
+      }
+
+      const updated = await tx.documents.findUniqueOrThrow({
+        where: { id: room.documentId }
+      });
+
+      await createRevision(tx, {
+        documentId: updated.id,
+        title: updated.title,
+        content,
+        source: 'collaboration',
+        createdBy: room.lastEditorId
+      });
+
+      return updated;
+    });
+
+    // A REST write synced into the room while saving may already have moved the version on
+    if (document) {
+      room.version = Math.max(room.version, document.version);
+      return;
+    }
+
+    const current = await prisma.documents.findUniqueOrThrow({
+      where: { id: room.documentId }
+    });
+    console.warn(
+      `Collaborative document ${room.documentId} was saved elsewhere (version ${current.version}, room at ${room.version}); reloading it into the room`
+    );
+    loadIntoRoom(room, current.content, current.version);
+  } catch (error) {
+    room.dirty = true;
+    console.error(`Failed to persist collaborative document ${room.documentId}:`, error);
+  }
+}
+
+async function createRoom(documentId: number): Promise<CollaborationRoom> {
+  const document = await prisma.documents.findUniqueOrThrow({
+    where: { id: documentId }
+  });
+
+  const doc = new Y.Doc();
+  setXmlFragmentContent(doc.getXmlFragment(COLLABORATION_FIELD), document.content, SERVER_ORIGIN);
+
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState(null);
+
+  const room: CollaborationRoom = {
+    documentId,
+    doc,
+    awareness,
+    connections: new Map(),
+    dirty: false,
+    version: document.version,
+    saving: null,
+    lastEditorId: null,
+    persistTimer: setInterval(() => void persistRoom(room), PERSIST_INTERVAL_MS),
+    destroyed: false
+  };
+
+  doc.on('update', (update: Uint8Array, origin: any) => {
+    if (origin !== SERVER_ORIGIN) {
+      room.dirty = true;
+    }
+
+    const connection = room.connections.get(origin);
+    if (connection) {
+      room.lastEditorId = connection.user.userId;
+    }
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder));
+  });
+
+  awareness.on('update', (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: any
+  ) => {
+    const changedClients = added.concat(updated, removed);
+
+    // Remember which awareness clients a socket controls so presence is cleared when it leaves
+    const connection = room.connections.get(origin);
+    if (connection) {
+      added.forEach((clientId) => connection.awarenessIds.add(clientId));
+      removed.forEach((clientId) => connection.awarenessIds.delete(clientId));
+    }
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changedClients));
+    broadcast(room, encoding.toUint8Array(encoder));
+  });
+
+  return room;
+}
+
+async function getRoom(documentId: number) {
+  let room = rooms.get(documentId);
+
+  if (!room) {
+    room = createRoom(documentId);
+    rooms.set(documentId, room);
+    room.catch(() => rooms.delete(documentId));
+  }
+
+  return room;
+}
+
+async function destroyRoom(room: CollaborationRoom) {
+  await persistRoom(room);
+
+  // A new client may have joined while the final save was running
+  if (room.connections.size > 0) {
+    return;
+  }
+
+  clearInterval(room.persistTimer);
+  room.destroyed = true;
+  rooms.delete(room.documentId);
+  room.awareness.destroy();
+  room.doc.destroy();
+}
+
+function closeConnection(room: CollaborationRoom, socket: WebSocket) {
+  const connection = room.connections.get(socket);
+
+  if (connection) {
+    room.connections.delete(socket);
+    awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(connection.awarenessIds), null);
+
+    if (room.connections.size === 0) {
+      void destroyRoom(room);
+    }
+  }
+
+  socket.close();
+}
+
+function handleMessage(room: CollaborationRoom, socket: WebSocket, connection: CollaborationConnection, data: Uint8Array) {
+  const decoder = decoding.createDecoder(data);
+  const encoder = encoding.createEncoder();
+  const messageType = decoding.readVarUint(decoder);
+
+  switch (messageType) {
+    case MESSAGE_SYNC: {
+      // Read-only collaborators may request the document state but not change it
+      if (connection.readOnly && decoding.peekVarUint(decoder) !== syncProtocol.messageYjsSyncStep1) {
+        return;
+      }
+
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.readSyncMessage(decoder, encoder, room.doc, socket);
+
+      if (encoding.length(encoder) > 1) {
+        send(room, socket, encoding.toUint8Array(encoder));
+      }
+      break;
+    }
+
+    case MESSAGE_AWARENESS:
+      awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), socket);
+      break;
+  }
+}
+
+function setupConnection(socket: WebSocket, room: CollaborationRoom, user: TokenPayload & { exp?: number }, readOnly: boolean) {
+  const connection: CollaborationConnection = {
+    user,
+    readOnly,
+    expiresAt: user.exp ? user.exp * 1000 : null,
+    awarenessIds: new Set(),
+    isAlive: true
+  };
+  room.connections.set(socket, connection);
+
+  socket.binaryType = 'arraybuffer';
+
+  socket.on('message', (data: ArrayBuffer) => {
+    try {
+      handleMessage(room, socket, connection, new Uint8Array(data));
+    } catch (error) {
+      console.error('Collaboration message error:', error);
+    }
+  });
+
+  socket.on('pong', () => {
+    connection.isAlive = true;
+  });
+
+  socket.on('close', () => closeConnection(room, socket));
+
+  // The heartbeat also ends sessions whose token expired; clients reconnect with a fresh one
+  const heartbeat = setInterval(() => {
+    if (!connection.isAlive) {
+      clearInterval(heartbeat);
+      socket.terminate();
+      return;
+    }
+    if (connection.expiresAt !== null && connection.expiresAt <= Date.now()) {
+      clearInterval(heartbeat);
+      socket.close(4401, 'Access token expired');
+      return;
+    }
+    connection.isAlive = false;
+    socket.ping();
+  }, HEARTBEAT_INTERVAL_MS);
+  socket.on('close', () => clearInterval(heartbeat));
+
+  const syncEncoder = encoding.createEncoder();
+  encoding.writeVarUint(syncEncoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(syncEncoder, room.doc);
+  send(room, socket, encoding.toUint8Array(syncEncoder));
+
+  const awarenessStates = room.awareness.getStates();
+  if (awarenessStates.size > 0) {
+    const awarenessEncoder = encoding.createEncoder();
+    encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(
+      awarenessEncoder,
+      awarenessProtocol.encodeAwarenessUpdate(room.awareness, Array.from(awarenessStates.keys()))
+    );
+    send(room, socket, encoding.toUint8Array(awarenessEncoder));
+  }
+}
+
+/**
+ * Disconnect everyone editing a document, e.g. after it was moved to the trash.
+ * Pending edits are still saved when the room is torn down.
+ */
+export async function closeDocumentRoom(documentId: number) {
+  const pending = rooms.get(documentId);
+  if (!pending) {
+    return;
+  }
+
+  const room = await pending;
+  room.connections.forEach((_, socket) => socket.close(4404, 'Document is no longer available'));
+}
+
+/**
+ * Re-check everyone in a live room against the document policy after its
+ * collaborators changed. Users who lost access are disconnected; the others
+ * can edit or become read-only according to their current role.
+ */
+export async function refreshDocumentRoomAccess(documentId: number) {
+  const pending = rooms.get(documentId);
+  if (!pending) {
+    return;
+  }
+
+  const room = await pending;
+
+  await Promise.all(Array.from(room.connections).map(async ([socket, connection]) => {
+    try {
+      const { role } = await requireDocumentRole(documentId, connection.user, 'viewer');
+      connection.readOnly = !hasDocumentRole(role, 'editor');
+    } catch (error: any) {
+      if (error.errno === 404 || error.errno === 403) {
+        socket.close(4403, 'Access to the document was revoked');
+        return;
+      }
+      console.error(`Failed to re-check collaboration access to document ${documentId}:`, error);
+    }
+  }));
+}
+
+/**
+ * Save the pending edits of a live room, so a REST write is version-checked
+ * against what collaborators have typed rather than the last periodic save
+ */
+export async function flushDocumentRoom(documentId: number) {
+  const pending = rooms.get(documentId);
+  if (!pending) {
+    return;
+  }
+
+  await persistRoom(await pending);
+}
+
+/**
+ * The document with the pending edits of a live room saved, for reads whose
+ * offsets or output have to match what collaborators see in the editor.
+ * Without a room the document is returned as it was loaded.
+ */
+export async function getFlushedDocument(document: Documents): Promise<Documents> {
+  if (!rooms.has(document.id)) {
+    return document;
+  }
+
+  await flushDocumentRoom(document.id);
+  return prisma.documents.findUniqueOrThrow({
+    where: { id: document.id }
+  });
+}
+
+/**
+ * Bring a live room up to date after the document was written outside it
+ * (REST update, revision restore). Without `content` only the version moves on.
+ */
+export async function syncDocumentRoom(documentId: number, version: number, content?: string) {
+  const pending = rooms.get(documentId);
+  if (!pending) {
+    return;
+  }
+
+  const room = await pending;
+  // A save of the room that finished after this write already holds it
+  if (room.destroyed || version < room.version) {
+    return;
+  }
+
+  if (content === undefined) {
+    room.version = version;
+    return;
+  }
+
+  loadIntoRoom(room, content, version);
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Accept WebSocket connections on /api/v1/collaboration/:documentId?token=<access token>
+ * Editors and owners can edit; viewers and commenters receive updates and presence only.
+ */
+export function attachCollaborationServer(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '', 'http://localhost');
+    const match = url.pathname.match(COLLABORATION_PATH);
+
+    if (!match) {
+      return rejectUpgrade(socket, 404, 'Not Found');
+    }
+
+    const token = url.searchParams.get('token');
+    if (!token) {
+      return rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+
+    let user: TokenPayload;
+    let readOnly: boolean;
+
+    try {
+      user = verifyAccessToken(token);
+      const { role } = await requireDocumentRole(match[1], user, 'viewer');
+      readOnly = !hasDocumentRole(role, 'editor');
+    } catch (error: any) {
+      if (error.errno === 404 || error.errno === 403) {
+        return rejectUpgrade(socket, error.errno, error.errno === 404 ? 'Not Found' : 'Forbidden');
+      }
+      return rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+
+    let room: CollaborationRoom;
+    try {
+      room = await getRoom(parseInt(match[1]));
+    } catch (error) {
+      console.error('Collaboration room error:', error);
+      return rejectUpgrade(socket, 500, 'Internal Server Error');
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      // The room may have been torn down while the upgrade was in progress
+      if (room.destroyed) {
+        ws.close(1013, 'Try again');
+        return;
+      }
+      setupConnection(ws, room, user, readOnly);
+    });
+  });
+
+  return wss;
+}
@@ -0,0 +1,191 @@
+import { prisma } from '../db/prisma';
+import { getOperationCost } from '../config/credits';
+import { CreditCharge, CreditOperation, CreditUsage } from '../types/credit.types';
+import { LLMUsage } from '../types/llm.types';
+import { error_codes, throwError } from '../utils/httpWrapper';
+
+/**
+ * Atomically deduct the cost of an operation from the user's balance and
+ * record the debit in the ledger. The conditional update means concurrent
+ * requests can never push the balance below zero.
+ */
+export async function chargeCredits(userId: number, operation: CreditOperation): Promise<CreditCharge> {
+  const cost = getOperationCost(operation);
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.user.updateMany({
+      where: {
+        id: userId,
+        availableCredits: { gte: cost }
+      },
+      data: {
+        availableCredits: { decrement: cost }
+      }
+    });
+
+    if (updated.count === 0) {
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: { availableCredits: true }
+      });
+
+      const error = throwError('Insufficient credits', error_codes.PAYMENT_REQUIRED);
+      error.details = {
+        operation,
+        required: cost,
+        available: user?.availableCredits ?? 0
+      };
+      throw error;
+    }
+
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { availableCredits: true }
+    });
+
+    const transaction = await tx.creditTransaction.create({
+      data: {
+        userId,
+        operation,
+        type: 'debit',
+        amount: -cost,
+        balanceAfter: user.availableCredits
+      }
+    });
+
+    return {
+      transactionId: transaction.id,
+      userId,
+      operation,
+      cost,
+      balance: user.availableCredits
+    };
+  });
+}
+
+/**
+ * Attach token usage (or provider credits) to an existing debit entry
+ */
+export async function recordCreditUsage(charge: CreditCharge, usage: CreditUsage) {
+  try {
+    await prisma.creditTransaction.update({
+      where: { id: charge.transactionId },
+      data: {
+        model: usage.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+        providerCredits: usage.providerCredits
+      }
+    });
+  } catch (error) {
+    console.error('Failed to record credit usage:', error);
+  }
+}
+
+/**
+ * Return the credits of a failed operation to the user (at most once per charge)
+ */
+export async function refundCredits(charge: CreditCharge) {
+  if (charge.refunded) {
+    return;
+  }
+  charge.refunded = true;
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const user = await tx.user.update({
+        where: { id: charge.userId },
+        data: { availableCredits: { increment: charge.cost } },
+        select: { availableCredits: true }
+      });
+
+      await tx.creditTransaction.create({
+        data: {
+          userId: charge.userId,
+          operation: charge.operation,
+          type: 'refund',
+          amount: charge.cost,
+          balanceAfter: user.availableCredits
+        }
+      });
+    });
+  } catch (error) {
+    console.error('Failed to refund credits:', error);
+  }
+}
+
+/**
+ * Settle the charge requireCredits took for a request: keep it with the model
+ * usage, or refund it when no model was used. Uncharged requests are left alone.
+ */
+export async function settleCredits(charge: CreditCharge | undefined, usage?: CreditUsage) {
+  if (!charge) {
+    return;
+  }
+
+  await (usage ? recordCreditUsage(charge, usage) : refundCredits(charge));
+}
+
+/**
+ * Add credits to a user's balance (admin top-ups)
+ */
+export async function grantCredits(userId: number, amount: number, operation: string = 'admin.grant') {
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.update({
+      where: { id: userId },
+      data: { availableCredits: { increment: amount } },
+      select: { availableCredits: true }
+    });
+
+    return tx.creditTransaction.create({
+      data: {
+        userId,
+        operation,
+        type: 'grant',
+        amount,
+        balanceAfter: user.availableCredits
+      }
+    });
+  });
+}
+
+export async function getCreditHistory(userId: number, limit: number = 50) {
+  return prisma.creditTransaction.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+}
+
+/**
+ * Map provider token usage onto the ledger's usage fields
+ */
+export function toCreditUsage(usage: LLMUsage | undefined, model: string): CreditUsage {
+  return {
+    model,
+    promptTokens: usage?.promptTokens,
+    completionTokens: usage?.completionTokens,
+    totalTokens: usage?.totalTokens
+  };
+}
+
+function addUsage(a: number | undefined, b: number | undefined) {
+  return a === undefined && b === undefined ? undefined : (a || 0) + (b || 0);
+}
+
+/**
+ * Usage of several model calls billed as one operation, e.g. a generation and
+ * its intent classification. The ledger entry keeps the first call's model.
+ */
+export function combineCreditUsage(usage: CreditUsage, ...others: (CreditUsage | undefined)[]): CreditUsage {
+  return others.reduce<CreditUsage>((total, other) => (other
+    ? {
+      model: total.model,
+      promptTokens: addUsage(total.promptTokens, other.promptTokens),
+      completionTokens: addUsage(total.completionTokens, other.completionTokens),
+      totalTokens: addUsage(total.totalTokens, other.totalTokens),
+      providerCredits: addUsage(total.providerCredits, other.providerCredits)
+    }
+    : total), usage);
+}
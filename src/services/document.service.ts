@@ -0,0 +1,119 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { CreateDocumentInput, DocumentListOptions, DocumentSummary } from '../types/document.types';
+import { decodeCursor, encodeCursor } from '../utils/pagination.utils';
+import { error_codes, throwError } from '../utils/httpWrapper';
+import { createRevision } from './revision.service';
+import { findUserFolder, normalizeTags } from './folder.service';
+
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Plain-text preview of document content (editor HTML is stripped)
+ */
+export function buildPreview(content: string, length: number = PREVIEW_LENGTH): string {
+  const text = content
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return text.length > length ? `${text.substring(0, length).trimEnd()}…` : text;
+}
+
+/**
+ * Create a document together with its initial revision
+ * Used by every way of adding a document (editor, import, templates).
+ */
+export async function createUserDocument(userId: number | null, input: CreateDocumentInput) {
+  const folder = input.folderId != null && userId ? await findUserFolder(input.folderId, userId) : null;
+  const tags = normalizeTags(input.tags ?? []);
+
+  return prisma.$transaction(async (tx) => {
+    const created = await tx.documents.create({
+      data: {
+        title: input.title,
+        content: input.content ?? '',
+        folderId: folder?.id ?? null,
+        tags,
+        createdBy: userId
+      }
+    });
+
+    await createRevision(tx, {
+      documentId: created.id,
+      title: created.title,
+      content: created.content,
+      source: 'create',
+      createdBy: userId
+    });
+
+    return created;
+  });
+}
+
+function cursorCondition(options: DocumentListOptions): Prisma.DocumentsWhereInput {
+  if (!options.cursor) {
+    return {};
+  }
+
+  const cursor = decodeCursor(options.cursor);
+  if (!cursor) {
+    throw throwError('Invalid cursor', error_codes.BAD_REQUEST);
+  }
+
+  const value = options.sort === 'title' ? String(cursor.value) : new Date(cursor.value);
+  if (value instanceof Date && isNaN(value.getTime())) {
+    throw throwError('Invalid cursor', error_codes.BAD_REQUEST);
+  }
+
+  const comparison = options.order === 'asc' ? 'gt' : 'lt';
+
+  // Keyset pagination: rows after the cursor's sort value, ties broken by id
+  return {
+    OR: [
+      { [options.sort]: { [comparison]: value } },
+      { [options.sort]: value, id: { [comparison]: cursor.id } }
+    ]
+  };
+}
+
+/**
+ * List a user's documents one page at a time
+ */
+export async function listDocuments(where: Prisma.DocumentsWhereInput, options: DocumentListOptions) {
+  const rows = await prisma.documents.findMany({
+    where: {
+      AND: [where, cursorCondition(options)]
+    },
+    orderBy: [
+      { [options.sort]: options.order },
+      { id: options.order }
+    ],
+    take: options.limit + 1
+  });
+
+  const hasMore = rows.length > options.limit;
+  const page = hasMore ? rows.slice(0, options.limit) : rows;
+  const last = page[page.length - 1];
+
+  const nextCursor = hasMore && last
+    ? encodeCursor({
+      value: options.sort === 'title' ? last.title : last[options.sort].toISOString(),
+      id: last.id
+    })
+    : null;
+
+  const documents = options.view === 'summary'
+    ? page.map((document): DocumentSummary => ({
+      id: document.id,
+      title: document.title,
+      preview: buildPreview(document.content),
+      version: document.version,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    }))
+    : page;
+
+  return { documents, nextCursor, hasMore };
+}
@@ -8,6 +8,21 @@ export interface EmailOptions {
     text?: string;
 }
 
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+export interface DocumentInvitationOptions {
+    inviterEmail: string;
+    documentId: number;
+    documentTitle: string;
+    role: string;
+}
+
 export class EmailService {
     private static transporter: nodemailer.Transporter;
 
@@ -164,4 +179,84 @@ export class EmailService {
             text,
         });
     }
+
+    static async sendDocumentInvitationEmail(email: string, options: DocumentInvitationOptions): Promise<void> {
+        const documentUrl = `${process.env.CLIENT_URL}/documents/${options.documentId}`;
+
+        const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Document Invitation</title>
+          <style>
+            body {
+              font-family: Arial, sans-serif;
+              line-height: 1.6;
+              color: #333;
+              max-width: 600px;
+              margin: 0 auto;
+              padding: 20px;
+            }
+            .container {
+              background-color: #f9f9f9;
+              padding: 30px;
+              border-radius: 10px;
+              border: 1px solid #ddd;
+            }
+            .content {
+              background-color: white;
+              padding: 25px;
+              border-radius: 5px;
+            }
+            .button {
+              display: inline-block;
+              background-color: #3498db;
+              color: white;
+              padding: 12px 25px;
+              text-decoration: none;
+              border-radius: 5px;
+              margin: 20px 0;
+              font-weight: bold;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="content">
+              <p>Hello,</p>
+
+              <p><strong>${escapeHtml(options.inviterEmail)}</strong> has invited you to collaborate on <strong>${escapeHtml(options.documentTitle)}</strong> as a <strong>${options.role}</strong>.</p>
+
+              <div style="text-align: center;">
+                <a href="${documentUrl}" class="button">Open Document</a>
+              </div>
+
+              <p>If you don't have a Scripelle account yet, sign up with this email address to get access.</p>
+
+              <p>Best regards,<br>The Scripelle Team</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+        const text = `
+      ${options.inviterEmail} has invited you to collaborate on "${options.documentTitle}" as a ${options.role}.
+
+      Open the document: ${documentUrl}
+
+      If you don't have a Scripelle account yet, sign up with this email address to get access.
+
+      Best regards,
+      The Scripelle Team
+    `;
+
+        await this.sendEmail({
+            to: email,
+            subject: `${options.inviterEmail} shared "${options.documentTitle}" with you - Scripelle`,
+            html,
+            text,
+        });
+    }
 }
\ No newline at end of file
@@ -0,0 +1,241 @@
+import PDFDocument from 'pdfkit';
+import TurndownService from 'turndown';
+import {
+  AlignmentType,
+  Document as DocxDocument,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  TextRun
+} from 'docx';
+import { Documents } from '@prisma/client';
+import { DocumentExport, ExportFormat } from '../types/document.types';
+import {
+  ContentBlock,
+  ContentRun,
+  blocksToText,
+  escapeHtml,
+  isHtmlContent,
+  parseContentBlocks,
+  toHtmlContent
+} from '../utils/content.utils';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'html', 'docx', 'pdf', 'txt'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf',
+  txt: 'text/plain; charset=utf-8',
+};
+
+const DOCX_HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const PDF_HEADING_SIZES = [22, 18, 15, 13, 12, 11];
+const PDF_BODY_SIZE = 11;
+
+export function isExportFormat(format: any): format is ExportFormat {
+  return EXPORT_FORMATS.includes(format);
+}
+
+/**
+ * File name for an export, derived from the document title
+ */
+export function buildExportFilename(title: string, format: ExportFormat): string {
+  const base = title
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 100);
+
+  return `${base || 'Untitled document'}.${format}`;
+}
+
+function renderMarkdown(content: string): string {
+  if (!isHtmlContent(content)) {
+    return content;
+  }
+
+  const turndown = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+  });
+
+  return turndown.turndown(content);
+}
+
+function renderHtml(title: string, content: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { max-width: 780px; margin: 40px auto; padding: 0 20px; font-family: Georgia, serif; line-height: 1.6; color: #222; }
+pre { background: #f5f5f5; padding: 12px; overflow-x: auto; }
+blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 16px; color: #555; }
+</style>
+</head>
+<body>
+${toHtmlContent(content)}
+</body>
+</html>
+`;
+}
+
+function toDocxRuns(runs: ContentRun[]): ParagraphChild[] {
+  return runs.map((run) => {
+    const lines = run.text.split('\n');
+    const textRuns = lines.map((line, index) => new TextRun({
+      text: line,
+      break: index > 0 ? 1 : undefined,
+      bold: run.bold,
+      italics: run.italic,
+      underline: run.underline || run.link ? {} : undefined,
+      strike: run.strike,
+      font: run.code ? 'Courier New' : undefined,
+      color: run.link ? '1155CC' : undefined,
+    }));
+
+    return run.link
+      ? new ExternalHyperlink({ link: run.link, children: textRuns })
+      : textRuns;
+  }).flat();
+}
+
+function toDocxParagraph(block: ContentBlock): Paragraph {
+  const children = toDocxRuns(block.runs);
+
+  switch (block.type) {
+    case 'heading':
+      return new Paragraph({ heading: DOCX_HEADINGS[(block.level || 1) - 1], children });
+    case 'list-item':
+      return block.ordered
+        ? new Paragraph({
+          numbering: { reference: 'ordered-list', level: block.depth || 0, instance: block.listId },
+          children
+        })
+        : new Paragraph({ bullet: { level: block.depth || 0 }, children });
+    case 'quote':
+      return new Paragraph({ indent: { left: 720 }, children });
+    default:
+      return new Paragraph({ children });
+  }
+}
+
+async function renderDocx(title: string, blocks: ContentBlock[]): Promise<Buffer> {
+  const document = new DocxDocument({
+    title,
+    numbering: {
+      config: [{
+        reference: 'ordered-list',
+        levels: Array.from({ length: 9 }, (_, level) => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+        }))
+      }]
+    },
+    sections: [{ children: blocks.map(toDocxParagraph) }]
+  });
+
+  return Packer.toBuffer(document);
+}
+
+function pdfFont(run: ContentRun, heading: boolean): string {
+  if (run.code) {
+    return 'Courier';
+  }
+
+  const bold = run.bold || heading;
+  if (bold && run.italic) {
+    return 'Helvetica-BoldOblique';
+  }
+  return bold ? 'Helvetica-Bold' : run.italic ? 'Helvetica-Oblique' : 'Helvetica';
+}
+
+/**
+ * Lay out blocks with the PDF standard fonts, so no font files are needed
+ */
+function renderPdf(title: string, blocks: ContentBlock[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: 'A4', margin: 56, info: { Title: title } });
+    const chunks: Buffer[] = [];
+
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    blocks.forEach((block) => {
+      const heading = block.type === 'heading';
+      const fontSize = heading ? PDF_HEADING_SIZES[(block.level || 1) - 1] : PDF_BODY_SIZE;
+      const indent = block.type === 'list-item'
+        ? 18 * ((block.depth || 0) + 1)
+        : block.type === 'quote' ? 24 : 0;
+
+      const runs: ContentRun[] = block.type === 'list-item'
+        ? [{ text: block.ordered ? `${block.index}. ` : '• ' }, ...block.runs]
+        : block.runs;
+
+      pdf.fontSize(fontSize);
+      runs.forEach((run, index) => {
+        pdf.font(pdfFont(run, heading)).text(run.text, pdf.page.margins.left + indent, undefined, {
+          continued: index < runs.length - 1,
+          underline: run.underline || Boolean(run.link),
+          strike: run.strike,
+          link: run.link || null,
+        });
+      });
+
+      pdf.moveDown(block.type === 'list-item' ? 0.2 : 0.6);
+    });
+
+    pdf.end();
+  });
+}
+
+/**
+ * Render a document into a downloadable file. Everything is produced locally:
+ * Markdown through turndown, DOCX through docx and PDF through pdfkit.
+ */
+export async function exportDocument(document: Documents, format: ExportFormat): Promise<DocumentExport> {
+  let body: Buffer;
+
+  switch (format) {
+    case 'md':
+      body = Buffer.from(renderMarkdown(document.content), 'utf8');
+      break;
+    case 'html':
+      body = Buffer.from(renderHtml(document.title, document.content), 'utf8');
+      break;
+    case 'txt':
+      body = Buffer.from(blocksToText(parseContentBlocks(document.content)), 'utf8');
+      break;
+    case 'docx':
+      body = await renderDocx(document.title, parseContentBlocks(document.content));
+      break;
+    case 'pdf':
+      body = await renderPdf(document.title, parseContentBlocks(document.content));
+      break;
+  }
+
+  return {
+    filename: buildExportFilename(document.title, format),
+    contentType: CONTENT_TYPES[format],
+    body
+  };
+}
@@ -0,0 +1,121 @@
+import { prisma } from '../db/prisma';
+import { error_codes, throwError } from '../utils/httpWrapper';
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+export async function findUserFolder(folderId: number | string, userId: number) {
+  const id = typeof folderId === 'string' ? parseInt(folderId) : folderId;
+
+  const folder = isNaN(id) ? null : await prisma.folder.findFirst({
+    where: { id, ownerId: userId }
+  });
+
+  if (!folder) {
+    throw throwError('Folder not found', error_codes.NOT_FOUND);
+  }
+
+  return folder;
+}
+
+/**
+ * Ids of a folder and all of its descendants
+ */
+export async function getFolderSubtreeIds(folderId: number, userId: number): Promise<number[]> {
+  const folders = await prisma.folder.findMany({
+    where: { ownerId: userId },
+    select: { id: true, parentId: true }
+  });
+
+  const ids = [folderId];
+  for (let i = 0; i < ids.length; i++) {
+    folders
+      .filter((folder) => folder.parentId === ids[i])
+      .forEach((folder) => ids.push(folder.id));
+  }
+
+  return ids;
+}
+
+/**
+ * Reject a parent that is the folder itself or one of its descendants
+ */
+export async function assertValidParent(folderId: number, parentId: number, userId: number) {
+  const subtree = await getFolderSubtreeIds(folderId, userId);
+
+  if (subtree.includes(parentId)) {
+    throw throwError('A folder cannot be moved into itself or one of its subfolders', error_codes.BAD_REQUEST);
+  }
+}
+
+/**
+ * Delete a folder. "cascade" removes its subfolders and moves their documents
+ * to the trash, "move-to-root" moves its documents and direct subfolders to the root first.
+ */
+export async function deleteFolder(folderId: number, userId: number, mode: 'cascade' | 'move-to-root') {
+  if (mode === 'cascade') {
+    const subtree = await getFolderSubtreeIds(folderId, userId);
+
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.documents.updateMany({
+        where: { folderId: { in: subtree }, createdBy: userId, deletedAt: null },
+        data: { deletedAt: new Date() }
+      });
+      await tx.folder.delete({ where: { id: folderId } });
+
+      return { deletedFolders: subtree.length, trashedDocuments: count, movedDocuments: 0 };
+    });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.documents.updateMany({
+      where: { folderId },
+      data: { folderId: null }
+    });
+    await tx.folder.updateMany({
+      where: { parentId: folderId },
+      data: { parentId: null }
+    });
+    await tx.folder.delete({ where: { id: folderId } });
+
+    return { deletedFolders: 1, trashedDocuments: 0, movedDocuments: count };
+  });
+}
+
+/**
+ * Trim, lowercase and de-duplicate free-form tags
+ */
+export function normalizeTags(tags: any): string[] {
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string')) {
+    throw throwError('Tags must be an array of strings', error_codes.BAD_REQUEST);
+  }
+
+  const normalized = Array.from(new Set(
+    tags.map((tag: string) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0)
+  ));
+
+  if (normalized.length > MAX_TAGS) {
+    throw throwError(`A document can have at most ${MAX_TAGS} tags`, error_codes.BAD_REQUEST);
+  }
+
+  if (normalized.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    throw throwError(`Tags can be at most ${MAX_TAG_LENGTH} characters long`, error_codes.BAD_REQUEST);
+  }
+
+  return normalized;
+}
+
+/**
+ * All tags used on a user's documents with how often each is used
+ */
+export async function getUserTags(userId: number) {
+  const rows = await prisma.$queryRaw<{ tag: string; count: bigint }[]>`
+    SELECT tag, COUNT(*) AS count
+    FROM "documents", unnest("tags") AS tag
+    WHERE "created_by" = ${userId} AND "deleted_at" IS NULL
+    GROUP BY tag
+    ORDER BY count DESC, tag ASC
+  `;
+
+  return rows.map((row) => ({ tag: row.tag, count: Number(row.count) }));
+}
@@ -0,0 +1,140 @@
+import path from 'path';
+import mammoth from 'mammoth';
+import { marked } from 'marked';
+import { parse } from 'node-html-parser';
+import { ImportFormat, ImportedDocument } from '../types/document.types';
+import { sanitizeContentHtml, textToHtml } from '../utils/content.utils';
+import { error_codes, throwError } from '../utils/httpWrapper';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['docx', 'md', 'html', 'txt'];
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  '.docx': 'docx',
+  '.md': 'md',
+  '.markdown': 'md',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'txt',
+};
+
+const MIME_FORMATS: Record<string, ImportFormat> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/markdown': 'md',
+  'text/x-markdown': 'md',
+  'text/html': 'html',
+  'text/plain': 'txt',
+};
+
+const MAX_TITLE_LENGTH = 200;
+
+interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+/**
+ * Format of an uploaded file, by extension first and MIME type second
+ */
+export function detectImportFormat(file: UploadedFile): ImportFormat | null {
+  const extension = path.extname(file.originalname).toLowerCase();
+
+  if (extension) {
+    return EXTENSION_FORMATS[extension] || null;
+  }
+
+  return MIME_FORMATS[file.mimetype.split(';')[0].trim()] || null;
+}
+
+function decodeText(buffer: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    throw throwError('File is not valid UTF-8 text', error_codes.UNPROCESSABLE_ENTITY);
+  }
+}
+
+async function convertDocx(buffer: Buffer): Promise<string> {
+  // DOCX files are ZIP archives
+  if (buffer.length < 4 || buffer.readUInt32LE(0) !== 0x04034b50) {
+    throw throwError('File is not a valid DOCX document', error_codes.UNPROCESSABLE_ENTITY);
+  }
+
+  try {
+    const result = await mammoth.convertToHtml({ buffer });
+    return result.value;
+  } catch {
+    throw throwError('File is not a valid DOCX document', error_codes.UNPROCESSABLE_ENTITY);
+  }
+}
+
+function firstHeading(html: string): string | null {
+  const heading = parse(html).querySelector('h1, h2');
+  const text = heading?.text.replace(/\s+/g, ' ').trim();
+
+  return text || null;
+}
+
+/**
+ * Title for an imported document: an explicit title, the document's own
+ * title or first heading, or the file name without its extension
+ */
+function deriveTitle(html: string, filename: string, sourceTitle?: string | null): string {
+  const title = sourceTitle?.replace(/\s+/g, ' ').trim()
+    || firstHeading(html)
+    || path.basename(filename, path.extname(filename)).trim()
+    || 'Untitled document';
+
+  return title.substring(0, MAX_TITLE_LENGTH);
+}
+
+/**
+ * Convert an uploaded file into the HTML content the editor stores
+ * Throws 415 for unsupported formats and 422 for files that cannot be read.
+ */
+export async function convertImportFile(file: UploadedFile): Promise<ImportedDocument> {
+  const format = detectImportFormat(file);
+
+  if (!format) {
+    throw throwError(
+      `Unsupported file type. Supported formats: ${IMPORT_FORMATS.map((f) => `.${f}`).join(', ')}`,
+      error_codes.UNSUPPORTED_MEDIA_TYPE
+    );
+  }
+
+  if (file.buffer.length === 0) {
+    throw throwError('File is empty', error_codes.UNPROCESSABLE_ENTITY);
+  }
+
+  let html: string;
+  let sourceTitle: string | null = null;
+
+  switch (format) {
+    case 'docx':
+      html = await convertDocx(file.buffer);
+      break;
+    case 'md':
+      html = marked.parse(decodeText(file.buffer), { async: false });
+      break;
+    case 'html': {
+      html = decodeText(file.buffer);
+      sourceTitle = parse(html).querySelector('title')?.text || null;
+      break;
+    }
+    case 'txt':
+      html = textToHtml(decodeText(file.buffer));
+      break;
+  }
+
+  const content = sanitizeContentHtml(html).trim();
+
+  if (parse(content).text.trim().length === 0) {
+    throw throwError('File does not contain any text', error_codes.UNPROCESSABLE_ENTITY);
+  }
+
+  return {
+    title: deriveTitle(content, file.originalname, sourceTitle),
+    content,
+    format
+  };
+}
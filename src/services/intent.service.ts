@@ -0,0 +1,194 @@
+import { prisma } from '../db/prisma';
+import { Intent, IntentClassification, IntentClassifier } from '../types/intent.types';
+import { StructuredOutputSpec } from '../types/llm.types';
+import { generateStructuredForRole } from './llm/structured';
+import { toCreditUsage } from './credit.service';
+import { incrementCounter } from './metrics.service';
+
+export const INTENTS: Intent[] = ['agent', 'ask'];
+
+// Only the start of long prompts is sent to the classifier and stored
+const MAX_CLASSIFIED_PROMPT = 2000;
+const MAX_CLASSIFIED_CONTEXT = 500;
+
+/**
+ * The original substring rules, kept as the offline fallback. Confidence
+ * reflects how strong the matched signal is.
+ */
+export class KeywordIntentClassifier implements IntentClassifier {
+  readonly name = 'keyword';
+
+  private static readonly contentGenerationIndicators = [
+    'write', 'create', 'generate', 'compose', 'draft', 'make', 'build',
+    'design', 'develop', 'craft', 'produce', 'formulate',
+
+    'paragraph', 'sentence', 'story', 'article', 'essay', 'letter', 'email',
+    'report', 'summary', 'description', 'content', 'text', 'copy',
+    'introduction', 'conclusion', 'heading', 'title', 'subject line',
+    'bullet points', 'list', 'outline', 'script', 'dialogue',
+
+    'give me a', 'provide a', 'show me a', 'come up with',
+    'help me write', 'help me create', 'i need a', 'i want a'
+  ];
+
+  private static readonly questionIndicators = [
+    'what', 'how', 'why', 'when', 'where', 'who', 'which', 'whose',
+
+    'can you explain', 'what is', 'what are', 'how do', 'how does',
+    'why do', 'why does', 'when should', 'where can', 'who is',
+    'is it', 'are there', 'do you', 'does it', 'will it', 'would it',
+    'should i', 'could you', 'tell me about', 'explain'
+  ];
+
+  async classify(prompt: string): Promise<IntentClassification> {
+    const lowerPrompt = prompt.toLowerCase().trim();
+
+    const hasContentGeneration = KeywordIntentClassifier.contentGenerationIndicators.some(indicator =>
+      lowerPrompt.includes(indicator)
+    );
+
+    const hasQuestionPattern = KeywordIntentClassifier.questionIndicators.some(indicator =>
+      lowerPrompt.includes(indicator)
+    );
+
+    const endsWithQuestionMark = lowerPrompt.endsWith('?');
+
+    if (hasContentGeneration && !endsWithQuestionMark) {
+      return { intent: 'agent', confidence: hasQuestionPattern ? 0.55 : 0.75, source: 'keyword' };
+    }
+
+    if (hasQuestionPattern || endsWithQuestionMark) {
+      return { intent: 'ask', confidence: hasContentGeneration ? 0.55 : 0.75, source: 'keyword' };
+    }
+
+    // No signal either way
+    return { intent: 'ask', confidence: 0.5, source: 'keyword' };
+  }
+}
+
+interface IntentOutput {
+  intent: Intent;
+  confidence: number;
+}
+
+const INTENT_OUTPUT: StructuredOutputSpec = {
+  name: 'intent_classification',
+  schema: {
+    type: 'object',
+    properties: {
+      intent: { type: 'string', enum: INTENTS },
+      confidence: { type: 'number', minimum: 0, maximum: 1 }
+    },
+    required: ['intent', 'confidence']
+  }
+};
+
+/**
+ * A single short call to the intent role model (LLM_INTENT_MODEL)
+ */
+export class LLMIntentClassifier implements IntentClassifier {
+  readonly name = 'llm';
+
+  async classify(prompt: string, context?: string): Promise<IntentClassification> {
+    const classificationPrompt = `Classify what the user of a writing assistant wants.
+
+- "agent": they want text produced to put into their document (write, draft, rewrite, continue, list, summarise into the document...)
+- "ask": they want an answer, explanation or opinion for themselves, not text for the document
+
+Judge the request as a whole, not single words: "write what you think about remote work" is agent, "what should I write about?" is ask.
+${context ? `\nDocument excerpt:\n${context.substring(0, MAX_CLASSIFIED_CONTEXT)}\n` : ''}
+User request:
+${prompt.substring(0, MAX_CLASSIFIED_PROMPT)}
+
+Return the label and your confidence between 0 and 1.`;
+
+    const { data, result } = await generateStructuredForRole<IntentOutput>('intent', classificationPrompt, INTENT_OUTPUT, {
+      temperature: 0,
+      maxOutputTokens: 50
+    });
+
+    return {
+      intent: data.intent,
+      confidence: data.confidence,
+      source: 'llm',
+      model: result.model,
+      usage: toCreditUsage(result.usage, result.model)
+    };
+  }
+}
+
+const keywordClassifier = new KeywordIntentClassifier();
+
+let classifier: IntentClassifier = (process.env.INTENT_CLASSIFIER || 'llm') === 'keyword'
+  ? keywordClassifier
+  : new LLMIntentClassifier();
+
+/**
+ * Swap the classifier used for auto mode, e.g. for a fine-tuned model
+ */
+export function setIntentClassifier(intentClassifier: IntentClassifier) {
+  classifier = intentClassifier;
+}
+
+export function isIntent(value: any): value is Intent {
+  return INTENTS.includes(value);
+}
+
+/**
+ * Intent of a prompt: the user's override when given, otherwise the configured
+ * classifier, falling back to the keyword rules if it fails
+ */
+export async function classifyIntent(
+  prompt: string,
+  options: { override?: Intent; context?: string } = {}
+): Promise<IntentClassification> {
+  if (options.override) {
+    return { intent: options.override, confidence: 1, source: 'override' };
+  }
+
+  if (classifier === keywordClassifier) {
+    return keywordClassifier.classify(prompt);
+  }
+
+  try {
+    return await classifier.classify(prompt, options.context);
+  } catch (error: any) {
+    console.warn(`Intent classifier "${classifier.name}" failed, using keyword rules:`, error.message);
+    return { ...(await keywordClassifier.classify(prompt)), fallbackReason: error.message };
+  }
+}
+
+/**
+ * Log a classification and keep it for accuracy evaluation. Failing to store
+ * it never fails the request it belongs to.
+ */
+export async function recordIntentClassification(
+  userId: number,
+  prompt: string,
+  classification: IntentClassification,
+  documentId?: number | null
+): Promise<number | null> {
+  console.log(
+    `Intent for user ${userId}: ${classification.intent} (confidence ${classification.confidence.toFixed(2)}, ${classification.source}${classification.model ? `, ${classification.model}` : ''})`
+  );
+  incrementCounter('intent_classifications_total', { intent: classification.intent, source: classification.source });
+
+  try {
+    const record = await prisma.intentClassification.create({
+      data: {
+        userId,
+        documentId: documentId ?? null,
+        prompt: prompt.substring(0, MAX_CLASSIFIED_PROMPT),
+        intent: classification.intent,
+        confidence: classification.confidence,
+        source: classification.source,
+        model: classification.model ?? null,
+        fallbackReason: classification.fallbackReason ?? null
+      }
+    });
+    return record.id;
+  } catch (error) {
+    console.error('Error recording intent classification:', error);
+    return null;
+  }
+}
@@ -0,0 +1,135 @@
+import { Content, GenerationConfig, GoogleGenerativeAI, Schema, UsageMetadata } from '@google/generative-ai';
+import {
+  JsonSchema,
+  LLMChatMessage,
+  LLMGenerationOptions,
+  LLMProvider,
+  LLMResult,
+  LLMStreamChunk,
+  LLMUsage
+} from '../../types/llm.types';
+import { DEFAULT_ROLE_MODELS } from '../../config/llm';
+
+function toUsage(usageMetadata: UsageMetadata | undefined): LLMUsage {
+  return {
+    promptTokens: usageMetadata?.promptTokenCount,
+    completionTokens: usageMetadata?.candidatesTokenCount,
+    totalTokens: usageMetadata?.totalTokenCount
+  };
+}
+
+function toGeminiSchema(schema: JsonSchema): Schema {
+  return {
+    type: schema.type,
+    ...(schema.description && { description: schema.description }),
+    ...(schema.nullable && { nullable: true }),
+    ...(schema.enum && { format: 'enum', enum: schema.enum }),
+    ...(schema.properties && {
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    }),
+    ...(schema.required && { required: schema.required }),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+    ...(schema.maxItems !== undefined && { maxItems: schema.maxItems })
+  } as Schema;
+}
+
+// Gemini 1.0 models have no JSON mode
+function supportsResponseSchema(model: string) {
+  return !/^gemini-(1\.0|pro$|pro-)/.test(model);
+}
+
+/**
+ * Google Gemini through the @google/generative-ai SDK (GEMINI_API_KEY)
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  readonly defaultModel = DEFAULT_ROLE_MODELS.gemini.generation;
+  private readonly client: GoogleGenerativeAI;
+
+  constructor(apiKey: string | undefined = process.env.GEMINI_API_KEY) {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not set in environment variables');
+    }
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  private getGenerationConfig(options: LLMGenerationOptions): GenerationConfig {
+    const model = options.model || this.defaultModel;
+
+    return {
+      maxOutputTokens: options.maxOutputTokens,
+      temperature: options.temperature,
+      ...(options.responseFormat && supportsResponseSchema(model) && {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(options.responseFormat.schema)
+      })
+    };
+  }
+
+  private getModel(options: LLMGenerationOptions = {}) {
+    return this.client.getGenerativeModel({
+      model: options.model || this.defaultModel,
+      generationConfig: this.getGenerationConfig(options)
+    });
+  }
+
+  async generate(prompt: string, options: LLMGenerationOptions = {}): Promise<LLMResult> {
+    const result = await this.getModel(options).generateContent(prompt, { signal: options.signal });
+
+    return {
+      text: result.response.text(),
+      provider: this.name,
+      model: options.model || this.defaultModel,
+      usage: toUsage(result.response.usageMetadata)
+    };
+  }
+
+  async stream(prompt: string, options: LLMGenerationOptions = {}): Promise<AsyncIterable<LLMStreamChunk>> {
+    const result = await this.getModel(options).generateContentStream(prompt, { signal: options.signal });
+
+    return (async function* () {
+      for await (const chunk of result.stream) {
+        yield {
+          text: chunk.text(),
+          usage: chunk.usageMetadata ? toUsage(chunk.usageMetadata) : undefined
+        };
+      }
+    })();
+  }
+
+  async chat(messages: LLMChatMessage[], options: LLMGenerationOptions = {}): Promise<LLMResult> {
+    const system = messages.filter((message) => message.role === 'system').map((message) => message.content);
+    const conversation = messages.filter((message) => message.role !== 'system');
+    const last = conversation.pop();
+
+    if (!last || last.role !== 'user') {
+      throw new Error('A chat must end with a user message');
+    }
+
+    const history: Content[] = conversation.map((message) => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: message.content }]
+    }));
+
+    const model = this.client.getGenerativeModel({
+      model: options.model || this.defaultModel,
+      ...(system.length > 0 && { systemInstruction: system.join('\n\n') }),
+      generationConfig: this.getGenerationConfig(options)
+    });
+
+    const result = await model.startChat({ history }).sendMessage(last.content, { signal: options.signal });
+
+    return {
+      text: result.response.text(),
+      provider: this.name,
+      model: options.model || this.defaultModel,
+      usage: toUsage(result.response.usageMetadata)
+    };
+  }
+
+  async countTokens(text: string, model?: string): Promise<number> {
+    const { totalTokens } = await this.getModel({ model }).countTokens(text);
+    return totalTokens;
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  LLMFallback,
+  LLMGenerationOptions,
+  LLMModelSelection,
+  LLMProvider,
+  LLMProviderName,
+  LLMResult,
+  LLMRole,
+  LLMStreamChunk
+} from '../../types/llm.types';
+import { getRoleModel } from '../../config/llm';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAICompatibleProvider } from './openai.provider';
+import { MockProvider } from './mock.provider';
+import { callWithResilience, guardStream } from './resilience';
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+/**
+ * Provider instance by name, created on first use so only the providers
+ * that are actually configured need credentials
+ */
+export function getLLMProvider(name: LLMProviderName): LLMProvider {
+  let provider = providers.get(name);
+
+  if (!provider) {
+    switch (name) {
+      case 'gemini':
+        provider = new GeminiProvider();
+        break;
+      case 'openai':
+        provider = new OpenAICompatibleProvider();
+        break;
+      case 'mock':
+        provider = new MockProvider();
+        break;
+    }
+    providers.set(name, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Provider and model configured for a role
+ */
+export function getRoleProvider(role: LLMRole) {
+  const { provider, model } = getRoleModel(role);
+  return { provider: getLLMProvider(provider), model };
+}
+
+/**
+ * Generate text with a specific provider and model, with timeouts, retries
+ * and the configured fallback model
+ */
+export async function generateWith(
+  selection: LLMModelSelection,
+  prompt: string,
+  options: Omit<LLMGenerationOptions, 'model' | 'signal'> = {}
+): Promise<LLMResult> {
+  const { value, fallback } = await callWithResilience(selection, (target, controller) =>
+    getLLMProvider(target.provider).generate(prompt, { ...options, model: target.model, signal: controller.signal })
+  );
+
+  return fallback ? { ...value, fallback } : value;
+}
+
+/**
+ * Stream text with a specific provider and model. Retries and the fallback
+ * apply until the stream is accepted; after that a stalled stream is aborted.
+ */
+export async function streamWith(
+  selection: LLMModelSelection,
+  prompt: string,
+  options: Omit<LLMGenerationOptions, 'model' | 'signal'> = {}
+): Promise<{ stream: AsyncIterable<LLMStreamChunk>; provider: LLMProviderName; model: string; fallback?: LLMFallback }> {
+  const { value: stream, selection: used, fallback } = await callWithResilience(selection, async (target, controller) => {
+    const accepted = await getLLMProvider(target.provider).stream(prompt, {
+      ...options,
+      model: target.model,
+      signal: controller.signal
+    });
+    return guardStream(accepted, target, controller);
+  });
+
+  return { stream, ...used, fallback };
+}
+
+/**
+ * Generate text with the model configured for a role
+ */
+export async function generateForRole(
+  role: LLMRole,
+  prompt: string,
+  options: Omit<LLMGenerationOptions, 'model' | 'signal'> = {}
+): Promise<LLMResult> {
+  return generateWith(getRoleModel(role), prompt, options);
+}
+
+/**
+ * Stream text with the model configured for a role
+ */
+export async function streamForRole(
+  role: LLMRole,
+  prompt: string,
+  options: Omit<LLMGenerationOptions, 'model' | 'signal'> = {}
+) {
+  return streamWith(getRoleModel(role), prompt, options);
+}
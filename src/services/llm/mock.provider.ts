@@ -0,0 +1,64 @@
+import {
+  LLMChatMessage,
+  LLMGenerationOptions,
+  LLMProvider,
+  LLMResult,
+  LLMStreamChunk
+} from '../../types/llm.types';
+import { DEFAULT_ROLE_MODELS } from '../../config/llm';
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+/**
+ * Deterministic local provider for development and tests; never calls out
+ * Responds with LLM_MOCK_RESPONSE when set, otherwise echoes the end of the prompt.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly defaultModel = DEFAULT_ROLE_MODELS.mock.generation;
+
+  constructor(private readonly fixedResponse: string | undefined = process.env.LLM_MOCK_RESPONSE) {}
+
+  private respond(prompt: string, options: LLMGenerationOptions): LLMResult {
+    let text = this.fixedResponse ?? `Mock response to: ${prompt.trim().split('\n').pop()?.substring(0, 200) || ''}`;
+
+    if (options.maxOutputTokens) {
+      text = text.split(/(\s+)/).slice(0, options.maxOutputTokens * 2).join('');
+    }
+
+    const promptTokens = countWords(prompt);
+    const completionTokens = countWords(text);
+
+    return {
+      text,
+      provider: this.name,
+      model: options.model || this.defaultModel,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+
+  async generate(prompt: string, options: LLMGenerationOptions = {}): Promise<LLMResult> {
+    return this.respond(prompt, options);
+  }
+
+  async stream(prompt: string, options: LLMGenerationOptions = {}): Promise<AsyncIterable<LLMStreamChunk>> {
+    const result = this.respond(prompt, options);
+    const tokens = result.text.match(/\S+\s*/g) || [];
+
+    return (async function* () {
+      for (let i = 0; i < tokens.length; i++) {
+        yield { text: tokens[i], usage: i === tokens.length - 1 ? result.usage : undefined };
+      }
+    })();
+  }
+
+  async chat(messages: LLMChatMessage[], options: LLMGenerationOptions = {}): Promise<LLMResult> {
+    return this.respond(messages.map((message) => message.content).join('\n'), options);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return countWords(text);
+  }
+}
@@ -0,0 +1,181 @@
+import {
+  JsonSchema,
+  LLMChatMessage,
+  LLMGenerationOptions,
+  LLMProvider,
+  LLMResult,
+  LLMStreamChunk,
+  LLMUsage
+} from '../../types/llm.types';
+import { DEFAULT_ROLE_MODELS } from '../../config/llm';
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+function toUsage(usage: OpenAIUsage | undefined): LLMUsage {
+  return {
+    promptTokens: usage?.prompt_tokens,
+    completionTokens: usage?.completion_tokens,
+    totalTokens: usage?.total_tokens
+  };
+}
+
+function toOpenAISchema(schema: JsonSchema): Record<string, unknown> {
+  return {
+    type: schema.nullable ? [schema.type, 'null'] : schema.type,
+    ...(schema.description && { description: schema.description }),
+    ...(schema.enum && { enum: schema.enum }),
+    ...(schema.properties && {
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toOpenAISchema(value)]))
+    }),
+    ...(schema.required && { required: schema.required }),
+    ...(schema.items && { items: toOpenAISchema(schema.items) }),
+    ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+    ...(schema.maxItems !== undefined && { maxItems: schema.maxItems }),
+    ...(schema.minimum !== undefined && { minimum: schema.minimum }),
+    ...(schema.maximum !== undefined && { maximum: schema.maximum })
+  };
+}
+
+/**
+ * OpenAI models with structured outputs, or any compatible server when
+ * OPENAI_STRUCTURED_OUTPUTS=true. The schema root has to be an object.
+ */
+function toResponseFormat(options: LLMGenerationOptions, model: string) {
+  const format = options.responseFormat;
+  const supported = process.env.OPENAI_STRUCTURED_OUTPUTS === 'true' || /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(model);
+
+  if (!format || !supported || format.schema.type !== 'object') {
+    return undefined;
+  }
+
+  return {
+    type: 'json_schema',
+    json_schema: { name: format.name, schema: toOpenAISchema(format.schema), strict: false }
+  };
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API: OpenAI itself,
+ * Azure-style gateways, vLLM, Ollama, LM Studio... (OPENAI_BASE_URL, OPENAI_API_KEY)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly defaultModel = DEFAULT_ROLE_MODELS.openai.generation;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(
+    baseUrl: string = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: string | undefined = process.env.OPENAI_API_KEY
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  private async request(messages: LLMChatMessage[], options: LLMGenerationOptions, stream: boolean) {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+      },
+      body: JSON.stringify({
+        model: options.model || this.defaultModel,
+        messages,
+        response_format: toResponseFormat(options, options.model || this.defaultModel),
+        max_tokens: options.maxOutputTokens,
+        temperature: options.temperature,
+        stream,
+        ...(stream && { stream_options: { include_usage: true } })
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const body: any = await response.json().catch(() => null);
+      // Keep the HTTP status on the error like the Gemini SDK does, callers check it for 429s
+      const error: any = new Error(body?.error?.message || `OpenAI-compatible API error (${response.status})`);
+      error.status = response.status;
+      throw error;
+    }
+
+    return response;
+  }
+
+  async generate(prompt: string, options: LLMGenerationOptions = {}): Promise<LLMResult> {
+    return this.chat([{ role: 'user', content: prompt }], options);
+  }
+
+  async stream(prompt: string, options: LLMGenerationOptions = {}): Promise<AsyncIterable<LLMStreamChunk>> {
+    const response = await this.request([{ role: 'user', content: prompt }], options, true);
+
+    if (!response.body) {
+      throw new Error('OpenAI-compatible API returned an empty stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+
+    return (async function* () {
+      let buffer = '';
+
+      // Closes the connection when the caller stops reading before the end
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) {
+            break;
+          }
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            const data = line.trim();
+            if (!data.startsWith('data:')) {
+              continue;
+            }
+
+            const payload = data.substring(5).trim();
+            if (payload === '[DONE]') {
+              return;
+            }
+
+            const event = JSON.parse(payload);
+            yield {
+              text: event.choices?.[0]?.delta?.content || '',
+              usage: event.usage ? toUsage(event.usage) : undefined
+            };
+          }
+        }
+      } finally {
+        await reader.cancel().catch(() => undefined);
+      }
+    })();
+  }
+
+  async chat(messages: LLMChatMessage[], options: LLMGenerationOptions = {}): Promise<LLMResult> {
+    const response = await this.request(messages, options, false);
+    const body: any = await response.json();
+
+    return {
+      text: body.choices?.[0]?.message?.content || '',
+      provider: this.name,
+      model: body.model || options.model || this.defaultModel,
+      usage: toUsage(body.usage)
+    };
+  }
+
+  /**
+   * The chat completions API has no token counting endpoint, so this is the
+   * usual estimate of four characters per token
+   */
+  async countTokens(text: string): Promise<number> {
+    return Math.ceil(text.length / 4);
+  }
+}
@@ -0,0 +1,232 @@
+import { LLMFallback, LLMModelSelection, LLMStreamChunk } from '../../types/llm.types';
+import { getFallbackModel, getResilienceSettings } from '../../config/llm';
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+interface CircuitState {
+  failures: number;
+  openedAt: number | null;
+  // A single trial request is let through once the cooldown has passed
+  trialInFlight: boolean;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function selectionKey(selection: LLMModelSelection) {
+  return `${selection.provider}:${selection.model}`;
+}
+
+/**
+ * Errors keep an HTTP-like `status` like the provider errors do, so callers
+ * can map them to responses the same way
+ */
+function llmError(message: string, status: number, code: string) {
+  const error: any = new Error(message);
+  error.status = status;
+  error.code = code;
+  return error;
+}
+
+/**
+ * Rate limits, server errors, timeouts and network failures; anything else
+ * (bad request, invalid key...) fails the same way when retried
+ */
+export function isRetryableError(error: any): boolean {
+  if (error?.code === 'LLM_CIRCUIT_OPEN') {
+    return false;
+  }
+
+  if (RETRYABLE_STATUSES.includes(error?.status)) {
+    return true;
+  }
+
+  if (RETRYABLE_CODES.includes(error?.code) || RETRYABLE_CODES.includes(error?.cause?.code)) {
+    return true;
+  }
+
+  // fetch rejects with a bare "fetch failed" TypeError on network errors, the Gemini SDK wraps it
+  return /fetch failed/i.test(error?.message || '');
+}
+
+function acquireCircuit(selection: LLMModelSelection): boolean {
+  const state = circuits.get(selectionKey(selection));
+
+  if (!state || state.openedAt === null) {
+    return true;
+  }
+
+  if (state.trialInFlight || Date.now() - state.openedAt < getResilienceSettings().circuitCooldownMs) {
+    return false;
+  }
+
+  state.trialInFlight = true;
+  return true;
+}
+
+function recordSuccess(selection: LLMModelSelection) {
+  circuits.delete(selectionKey(selection));
+}
+
+function recordFailure(selection: LLMModelSelection) {
+  const key = selectionKey(selection);
+  const state = circuits.get(key) || { failures: 0, openedAt: null, trialInFlight: false };
+
+  state.failures++;
+  // A failed trial re-opens the circuit straight away
+  if (state.trialInFlight || state.failures >= getResilienceSettings().circuitFailureThreshold) {
+    if (state.openedAt === null || state.trialInFlight) {
+      console.warn(`LLM circuit for ${key} opened after ${state.failures} consecutive failures`);
+    }
+    state.openedAt = Date.now();
+  }
+  state.trialInFlight = false;
+
+  circuits.set(key, state);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^attempt
+ */
+function backoffDelay(attempt: number) {
+  const { retryBaseDelayMs, retryMaxDelayMs } = getResilienceSettings();
+  const ceiling = Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function withTimeout<T>(
+  selection: LLMModelSelection,
+  operation: (controller: AbortController) => Promise<T>
+): Promise<T> {
+  const { timeoutMs } = getResilienceSettings();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await operation(controller);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw llmError(`${selectionKey(selection)} did not respond within ${timeoutMs}ms`, 504, 'LLM_TIMEOUT');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function withRetries<T>(
+  selection: LLMModelSelection,
+  operation: (controller: AbortController) => Promise<T>
+): Promise<T> {
+  const { maxRetries } = getResilienceSettings();
+
+  for (let attempt = 0; ; attempt++) {
+    if (!acquireCircuit(selection)) {
+      throw llmError(`${selectionKey(selection)} is temporarily unavailable`, 503, 'LLM_CIRCUIT_OPEN');
+    }
+
+    try {
+      const value = await withTimeout(selection, operation);
+      recordSuccess(selection);
+      return value;
+    } catch (error: any) {
+      if (!isRetryableError(error)) {
+        // The provider answered, so it is up even though this request was rejected
+        recordSuccess(selection);
+        throw error;
+      }
+
+      recordFailure(selection);
+
+      if (attempt >= maxRetries) {
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt);
+      console.warn(`LLM call to ${selectionKey(selection)} failed (${error.message}), retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Run an LLM call with a timeout, retries with backoff and a per-model circuit
+ * breaker. When the model still fails (or its circuit is open) the call is
+ * repeated once with LLM_FALLBACK_MODEL, and `fallback` says why.
+ */
+export async function callWithResilience<T>(
+  selection: LLMModelSelection,
+  operation: (target: LLMModelSelection, controller: AbortController) => Promise<T>
+): Promise<{ value: T; selection: LLMModelSelection; fallback?: LLMFallback }> {
+  try {
+    const value = await withRetries(selection, (controller) => operation(selection, controller));
+    return { value, selection };
+  } catch (error: any) {
+    const fallbackModel = getFallbackModel();
+    const canFallBack = isRetryableError(error) || error.code === 'LLM_CIRCUIT_OPEN';
+
+    if (!fallbackModel || !canFallBack || selectionKey(fallbackModel) === selectionKey(selection)) {
+      throw error;
+    }
+
+    console.warn(`LLM call to ${selectionKey(selection)} failed (${error.message}), using fallback ${selectionKey(fallbackModel)}`);
+
+    const value = await withRetries(fallbackModel, (controller) => operation(fallbackModel, controller));
+
+    return {
+      value,
+      selection: fallbackModel,
+      fallback: {
+        requestedProvider: selection.provider,
+        requestedModel: selection.model,
+        reason: error.message
+      }
+    };
+  }
+}
+
+/**
+ * Abort a stream that goes quiet for longer than the timeout. Retries only
+ * cover opening the stream; a failure mid-stream is reported to the caller
+ * but still counts towards the model's circuit. A caller that stops reading
+ * early aborts the request, so the provider stops generating.
+ */
+export function guardStream(
+  stream: AsyncIterable<LLMStreamChunk>,
+  selection: LLMModelSelection,
+  controller: AbortController
+): AsyncIterable<LLMStreamChunk> {
+  const { timeoutMs } = getResilienceSettings();
+
+  return (async function* () {
+    let timer = setTimeout(() => controller.abort(), timeoutMs);
+    let finished = false;
+
+    try {
+      for await (const chunk of stream) {
+        clearTimeout(timer);
+        yield chunk;
+        timer = setTimeout(() => controller.abort(), timeoutMs);
+      }
+      finished = true;
+    } catch (error) {
+      const failure = controller.signal.aborted
+        ? llmError(`${selectionKey(selection)} stopped responding for ${timeoutMs}ms`, 504, 'LLM_TIMEOUT')
+        : error;
+
+      if (isRetryableError(failure)) {
+        recordFailure(selection);
+      }
+      throw failure;
+    } finally {
+      clearTimeout(timer);
+      if (!finished) {
+        controller.abort();
+      }
+    }
+  })();
+}
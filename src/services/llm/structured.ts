@@ -0,0 +1,177 @@
+import {
+  LLMGenerationOptions,
+  LLMModelSelection,
+  LLMResult,
+  LLMRole,
+  StructuredOutputSpec,
+  StructuredOutputStats,
+  StructuredResult
+} from '../../types/llm.types';
+import { getRoleModel } from '../../config/llm';
+import { extractJsonCandidate, repairJson, validateJson } from '../../utils/json.utils';
+import { getCounterValue, getCounters, incrementCounter } from '../metrics.service';
+import { generateWith } from './index';
+
+const METRIC = 'llm_structured_output_total';
+// How much of an unusable response is quoted back in the correction prompt
+const MAX_ECHOED_RESPONSE = 2000;
+
+type ParseOutcome<T> =
+  | { ok: true; data: T; repaired: boolean }
+  | { ok: false; errors: string[] };
+
+function record(name: string, outcome: 'request' | 'parse_failure' | 'repaired' | 'retried' | 'failed') {
+  incrementCounter(METRIC, { name, outcome });
+}
+
+/**
+ * Parse and validate a model response against the spec. Responses that do
+ * not parse as they are get one pass of repairJson before being rejected.
+ */
+export function parseStructuredOutput<T>(text: string, spec: StructuredOutputSpec): ParseOutcome<T> {
+  const candidate = extractJsonCandidate(text);
+
+  if (!candidate) {
+    return { ok: false, errors: ['The response contains no JSON'] };
+  }
+
+  let parsed: unknown;
+  let repaired = false;
+
+  try {
+    parsed = JSON.parse(candidate);
+  } catch {
+    try {
+      parsed = JSON.parse(repairJson(candidate));
+      repaired = true;
+    } catch (error: any) {
+      return { ok: false, errors: [`Invalid JSON: ${error.message}`] };
+    }
+  }
+
+  const { value, errors } = validateJson(parsed, spec.schema, { dropInvalidItems: spec.dropInvalidItems });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, data: value as T, repaired };
+}
+
+function withSchemaInstructions(prompt: string, spec: StructuredOutputSpec) {
+  return `${prompt}
+
+Respond ONLY with JSON that matches this JSON schema, without code fences or any other text:
+${JSON.stringify(spec.schema)}`;
+}
+
+function buildCorrectionPrompt(prompt: string, response: string, errors: string[], spec: StructuredOutputSpec) {
+  return `${withSchemaInstructions(prompt, spec)}
+
+Your previous response could not be used:
+${errors.slice(0, 10).map((error) => `- ${error}`).join('\n')}
+
+Previous response:
+${response.substring(0, MAX_ECHOED_RESPONSE)}
+
+Respond again with corrected JSON only.`;
+}
+
+function addUsage(first: LLMResult, second: LLMResult): LLMResult {
+  const sum = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a || 0) + (b || 0));
+
+  return {
+    ...second,
+    usage: {
+      promptTokens: sum(first.usage.promptTokens, second.usage.promptTokens),
+      completionTokens: sum(first.usage.completionTokens, second.usage.completionTokens),
+      totalTokens: sum(first.usage.totalTokens, second.usage.totalTokens)
+    }
+  };
+}
+
+/**
+ * Generate output matching a schema. JSON output is requested natively where
+ * the model supports it; an unusable response is repaired if possible, and
+ * otherwise retried once with a correction prompt. Throws a 502 error with
+ * code LLM_INVALID_OUTPUT when both fail; its `result` holds the usage of both
+ * attempts, which callers do not bill since nothing usable came back.
+ * Outcomes are counted per spec name, see getStructuredOutputStats.
+ */
+export async function generateStructured<T>(
+  selection: LLMModelSelection,
+  prompt: string,
+  spec: StructuredOutputSpec,
+  options: Omit<LLMGenerationOptions, 'model' | 'signal' | 'responseFormat'> = {}
+): Promise<StructuredResult<T>> {
+  const generationOptions = { ...options, responseFormat: { type: 'json' as const, name: spec.name, schema: spec.schema } };
+
+  const first = await generateWith(selection, withSchemaInstructions(prompt, spec), generationOptions);
+  record(spec.name, 'request');
+
+  const parsed = parseStructuredOutput<T>(first.text, spec);
+
+  if (parsed.ok) {
+    if (parsed.repaired) {
+      record(spec.name, 'repaired');
+    }
+    return { data: parsed.data, result: first, attempts: 1, repaired: parsed.repaired };
+  }
+
+  record(spec.name, 'parse_failure');
+  record(spec.name, 'retried');
+  console.warn(`Structured output "${spec.name}" was unusable (${parsed.errors.slice(0, 3).join('; ')}), retrying with a correction prompt`);
+
+  const second = await generateWith(selection, buildCorrectionPrompt(prompt, first.text, parsed.errors, spec), generationOptions);
+  const result = addUsage(first, second);
+  const reparsed = parseStructuredOutput<T>(second.text, spec);
+
+  if (reparsed.ok) {
+    if (reparsed.repaired) {
+      record(spec.name, 'repaired');
+    }
+    return { data: reparsed.data, result, attempts: 2, repaired: reparsed.repaired };
+  }
+
+  record(spec.name, 'failed');
+
+  const error: any = new Error(`The model did not return valid ${spec.name} output: ${reparsed.errors.slice(0, 3).join('; ')}`);
+  error.status = 502;
+  error.code = 'LLM_INVALID_OUTPUT';
+  error.errors = reparsed.errors;
+  error.result = result;
+  throw error;
+}
+
+/**
+ * Structured output from the model configured for a role
+ */
+export async function generateStructuredForRole<T>(
+  role: LLMRole,
+  prompt: string,
+  spec: StructuredOutputSpec,
+  options: Omit<LLMGenerationOptions, 'model' | 'signal' | 'responseFormat'> = {}
+): Promise<StructuredResult<T>> {
+  return generateStructured<T>(getRoleModel(role), prompt, spec, options);
+}
+
+/**
+ * Parse failure and final failure rates for every structured output seen since startup
+ */
+export function getStructuredOutputStats(): StructuredOutputStats[] {
+  const names = new Set(getCounters().filter((counter) => counter.name === METRIC).map((counter) => counter.labels.name));
+
+  return Array.from(names).sort().map((name) => {
+    const count = (outcome: string) => getCounterValue(METRIC, { name, outcome });
+    const requests = count('request');
+    const parseFailures = count('parse_failure');
+    const failed = count('failed');
+
+    return {
+      name,
+      requests,
+      parseFailures,
+      repaired: count('repaired'),
+      retried: count('retried'),
+      failed,
+      parseFailureRate: requests > 0 ? parseFailures / requests : 0,
+      failureRate: requests > 0 ? failed / requests : 0
+    };
+  });
+}
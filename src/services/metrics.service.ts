@@ -0,0 +1,29 @@
+export interface MetricCounter {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+// In-process counters; they reset on restart and are per instance
+const counters = new Map<string, MetricCounter>();
+
+function counterKey(name: string, labels: Record<string, string>) {
+  const labelText = Object.keys(labels).sort().map((key) => `${key}=${labels[key]}`).join(',');
+  return `${name}{${labelText}}`;
+}
+
+export function incrementCounter(name: string, labels: Record<string, string> = {}, amount = 1) {
+  const key = counterKey(name, labels);
+  const counter = counters.get(key) || { name, labels, value: 0 };
+
+  counter.value += amount;
+  counters.set(key, counter);
+}
+
+export function getCounterValue(name: string, labels: Record<string, string> = {}): number {
+  return counters.get(counterKey(name, labels))?.value || 0;
+}
+
+export function getCounters(): MetricCounter[] {
+  return Array.from(counters.values()).map((counter) => ({ ...counter, labels: { ...counter.labels } }));
+}
@@ -0,0 +1,55 @@
+import { prisma } from '../db/prisma';
+import { MODEL_CATALOG, findCatalogModel } from '../config/models';
+import { getRoleModel, isProviderConfigured } from '../config/llm';
+import { LLMModelSelection, ModelCatalogItem } from '../types/llm.types';
+import { error_codes, throwError } from '../utils/httpWrapper';
+
+export async function getUserPlan(userId: number): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { plan: true }
+  });
+
+  if (!user) {
+    throw throwError('User not found', error_codes.NOT_FOUND);
+  }
+
+  return user.plan;
+}
+
+/**
+ * Catalog models whose provider is configured, flagged with whether the plan may use them
+ */
+export function getModelCatalog(plan: string): ModelCatalogItem[] {
+  const defaultModel = getRoleModel('generation');
+
+  return MODEL_CATALOG
+    .filter((entry) => isProviderConfigured(entry.provider))
+    .map((entry) => ({
+      ...entry,
+      available: entry.plans.includes(plan),
+      isDefault: entry.provider === defaultModel.provider && entry.id === defaultModel.model
+    }));
+}
+
+/**
+ * Model to use for a generation request: the requested catalog model if the
+ * plan allows it, otherwise the configured generation default
+ */
+export function resolveGenerationModel(requested: unknown, plan: string): LLMModelSelection {
+  if (requested === undefined || requested === null || requested === '') {
+    return getRoleModel('generation');
+  }
+
+  const entry = typeof requested === 'string' ? findCatalogModel(requested) : undefined;
+
+  if (!entry || !isProviderConfigured(entry.provider)) {
+    throw throwError(`Unknown model "${requested}". See GET /ai/models for the available models`, error_codes.BAD_REQUEST);
+  }
+
+  if (!entry.plans.includes(plan)) {
+    throw throwError(`The ${entry.displayName} model is not available on the ${plan} plan`, error_codes.FORBIDDEN);
+  }
+
+  return { provider: entry.provider, model: entry.id };
+}
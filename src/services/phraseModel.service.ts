@@ -0,0 +1,250 @@
+import { prisma } from '../db/prisma';
+import { SuggestionItem } from '../types/autocompletion.types';
+import { blocksToText, parseContentBlocks, toHtmlContent } from '../utils/content.utils';
+import { v4 as uuidv4 } from 'uuid';
+
+const MODEL_TTL_MS = parseInt(process.env.PHRASE_MODEL_TTL_MS || '600000');
+// Words and continuations held by all cached models together
+const MAX_CACHED_ENTRIES = parseInt(process.env.PHRASE_MODEL_CACHE_MAX_ENTRIES || '1000000');
+const MAX_DOCUMENTS = 100;
+const MAX_WORDS = 20000;
+// Longest phrase suggested after a context
+const MAX_PHRASE_WORDS = 3;
+// Continuations kept per context once a model is built
+const MAX_CONTINUATIONS = 20;
+
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+
+/**
+ * Word n-gram counts from a user's own documents. Continuations are keyed on
+ * the previous one or two words (lowercased) and map each following phrase,
+ * in its original casing, to how often it was seen.
+ */
+interface PhraseModel {
+  continuations: Map<string, Map<string, number>>;
+  words: Map<string, { word: string; count: number }>;
+  builtAt: number;
+  // Words plus continuations, what the model costs in the cache
+  entries: number;
+}
+
+const models = new Map<number, PhraseModel>();
+let cachedEntries = 0;
+const pending = new Map<number, Promise<PhraseModel>>();
+
+function tokenize(text: string): string[] {
+  return text.match(WORD_PATTERN) || [];
+}
+
+function increment(continuations: Map<string, Map<string, number>>, context: string, phrase: string) {
+  let counts = continuations.get(context);
+  if (!counts) {
+    counts = new Map();
+    continuations.set(context, counts);
+  }
+  counts.set(phrase, (counts.get(phrase) || 0) + 1);
+}
+
+/**
+ * Keep the most frequent continuations of each context. Multi-word phrases
+ * seen only once are dropped, since they are never suggested.
+ */
+function pruneContinuations(model: PhraseModel) {
+  model.entries = model.words.size;
+
+  for (const [context, counts] of model.continuations) {
+    const kept = Array.from(counts.entries())
+      .filter(([phrase, count]) => count > 1 || !phrase.includes(' '))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CONTINUATIONS);
+
+    if (kept.length === 0) {
+      model.continuations.delete(context);
+    } else {
+      model.continuations.set(context, new Map(kept));
+      model.entries += kept.length;
+    }
+  }
+}
+
+export function buildPhraseModel(texts: string[]): PhraseModel {
+  const model: PhraseModel = { continuations: new Map(), words: new Map(), builtAt: Date.now(), entries: 0 };
+  let wordCount = 0;
+
+  for (const text of texts) {
+    if (wordCount >= MAX_WORDS) {
+      break;
+    }
+
+    // Phrases never run across sentence boundaries
+    for (const sentence of text.split(/[.!?;:\n]+/)) {
+      const tokens = tokenize(sentence);
+
+      tokens.forEach((token, index) => {
+        const key = token.toLowerCase();
+        const entry = model.words.get(key);
+        model.words.set(key, { word: entry?.word || token, count: (entry?.count || 0) + 1 });
+
+        for (let length = 1; length <= MAX_PHRASE_WORDS && index + length < tokens.length; length++) {
+          const phrase = tokens.slice(index + 1, index + 1 + length).join(' ');
+          increment(model.continuations, key, phrase);
+          if (index > 0) {
+            increment(model.continuations, `${tokens[index - 1].toLowerCase()} ${key}`, phrase);
+          }
+        }
+      });
+
+      wordCount += tokens.length;
+      if (wordCount >= MAX_WORDS) {
+        break;
+      }
+    }
+  }
+
+  pruneContinuations(model);
+  return model;
+}
+
+async function loadPhraseModel(userId: number): Promise<PhraseModel> {
+  const documents = await prisma.documents.findMany({
+    where: { createdBy: userId, deletedAt: null },
+    select: { content: true },
+    orderBy: { updatedAt: 'desc' },
+    take: MAX_DOCUMENTS
+  });
+
+  const texts = documents.map((document) => blocksToText(parseContentBlocks(toHtmlContent(document.content))));
+  return buildPhraseModel(texts);
+}
+
+/**
+ * The user's phrase model, rebuilt from their documents once it is older than
+ * PHRASE_MODEL_TTL_MS. Concurrent requests share a single rebuild. The least
+ * recently used models are evicted once the cache holds more than
+ * PHRASE_MODEL_CACHE_MAX_ENTRIES words and continuations.
+ */
+export async function getPhraseModel(userId: number): Promise<PhraseModel> {
+  const cached = models.get(userId);
+  if (cached && Date.now() - cached.builtAt < MODEL_TTL_MS) {
+    models.delete(userId);
+    models.set(userId, cached);
+    return cached;
+  }
+
+  let loading = pending.get(userId);
+  if (!loading) {
+    loading = loadPhraseModel(userId).finally(() => pending.delete(userId));
+    pending.set(userId, loading);
+  }
+
+  const model = await loading;
+
+  const previous = models.get(userId);
+  if (previous) {
+    models.delete(userId);
+    cachedEntries -= previous.entries;
+  }
+  models.set(userId, model);
+  cachedEntries += model.entries;
+
+  // The model just stored stays even when it is over the budget on its own
+  while (cachedEntries > MAX_CACHED_ENTRIES && models.size > 1) {
+    const [oldestId, oldest] = models.entries().next().value as [number, PhraseModel];
+    models.delete(oldestId);
+    cachedEntries -= oldest.entries;
+  }
+
+  return model;
+}
+
+function toSuggestion(text: string, type: SuggestionItem['type'], confidence: number, preview: string): SuggestionItem {
+  return { id: uuidv4(), text, type, confidence: Math.round(confidence * 100) / 100, preview, source: 'local' };
+}
+
+/**
+ * Finish the word under the cursor with words the user writes most often,
+ * preferring those that have followed the previous word before
+ */
+function completeWord(model: PhraseModel, partial: string, previous: string | undefined): SuggestionItem[] {
+  const prefix = partial.toLowerCase();
+  const following = previous ? model.continuations.get(previous.toLowerCase()) : undefined;
+
+  const candidates = Array.from(model.words.values())
+    .filter(({ word }) => word.length > partial.length && word.toLowerCase().startsWith(prefix))
+    .map(({ word, count }) => ({ word, score: count + (following?.get(word) || 0) * 10 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 10);
+
+  const best = candidates[0]?.score || 1;
+
+  return candidates.map(({ word, score }) =>
+    toSuggestion(word.substring(partial.length), 'completion', 0.4 + 0.5 * (score / best), `Complete "${word}"`)
+  );
+}
+
+/**
+ * Phrases that followed the last two words (or failing that, the last word)
+ * in the user's documents. Multi-word phrases must have been seen at least twice.
+ */
+function continuePhrase(model: PhraseModel, tokens: string[], needsSpace: boolean): SuggestionItem[] {
+  const last = tokens[tokens.length - 1]?.toLowerCase();
+  if (!last) {
+    return [];
+  }
+
+  const contexts = [
+    { key: tokens.length > 1 ? `${tokens[tokens.length - 2].toLowerCase()} ${last}` : null, weight: 0.9 },
+    { key: last, weight: 0.7 }
+  ];
+
+  for (const { key, weight } of contexts) {
+    const counts = key ? model.continuations.get(key) : undefined;
+    if (!counts) {
+      continue;
+    }
+
+    const phrases = Array.from(counts.entries())
+      .filter(([phrase, count]) => count > 1 || !phrase.includes(' '))
+      .map(([phrase, count]) => ({ phrase, count, score: count * (1 + 0.25 * (phrase.split(' ').length - 1)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 10);
+
+    if (phrases.length === 0) {
+      continue;
+    }
+
+    const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+
+    return phrases.map(({ phrase, count }) =>
+      toSuggestion(
+        (needsSpace ? ' ' : '') + phrase,
+        'continuation',
+        Math.min(0.95, 0.3 + weight * Math.sqrt(count / total)),
+        'From your writing'
+      )
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Local suggestions for the text before the cursor, best first
+ */
+export function suggestFromPhraseModel(model: PhraseModel, beforeCursor: string): SuggestionItem[] {
+  const tail = beforeCursor.slice(-200);
+  // Only the current sentence is context for a continuation
+  const tokens = tokenize(tail.split(/[.!?;:\n]/).pop() || '');
+
+  if (/[\p{L}\p{N}]$/u.test(tail) && tokens.length > 0) {
+    const partial = tokens[tokens.length - 1];
+    const completions = completeWord(model, partial, tokens[tokens.length - 2]);
+
+    // The word may already be complete, so what usually follows it is offered too
+    return model.words.has(partial.toLowerCase())
+      ? [...completions, ...continuePhrase(model, tokens, true)].sort((a, b) => b.confidence - a.confidence)
+      : completions;
+  }
+
+  return continuePhrase(model, tokens, tail.length > 0 && !/\s$/.test(tail));
+}
@@ -0,0 +1,269 @@
+import { prisma } from '../../db/prisma';
+import { CreditUsage } from '../../types/credit.types';
+import { StructuredOutputSpec } from '../../types/llm.types';
+import {
+  ProofreadingCategory,
+  ProofreadingIssue,
+  ProofreadingReview,
+  ProofreadingRule
+} from '../../types/proofreading.types';
+import { maskHtmlPreservingOffsets } from '../../utils/content.utils';
+import { generateStructuredForRole } from '../llm/structured';
+import { toCreditUsage } from '../credit.service';
+import { PROOFREADING_RULES, findProofreadingRule } from './rules';
+
+export { PROOFREADING_RULES } from './rules';
+
+export const PROOFREADING_CATEGORIES: ProofreadingCategory[] = ['spelling', 'grammar', 'clarity', 'passive-voice', 'repetition'];
+
+// Only the start of long ranges is sent to the model
+const MAX_REVIEW_CHARS = 8000;
+const MAX_REVIEW_ISSUES = 30;
+const LLM_RULE_PREFIX = 'llm:';
+
+interface ReviewOutput {
+  issues: {
+    text: string;
+    category: ProofreadingCategory;
+    message: string;
+    suggestions?: string[];
+  }[];
+}
+
+const REVIEW_OUTPUT: StructuredOutputSpec = {
+  name: 'proofreading_review',
+  dropInvalidItems: true,
+  schema: {
+    type: 'object',
+    properties: {
+      issues: {
+        type: 'array',
+        maxItems: MAX_REVIEW_ISSUES,
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string', description: 'Exact excerpt of the text the issue is about, as short as possible' },
+            category: { type: 'string', enum: PROOFREADING_CATEGORIES },
+            message: { type: 'string' },
+            suggestions: { type: 'array', maxItems: 3, items: { type: 'string' } }
+          },
+          required: ['text', 'category', 'message']
+        }
+      }
+    },
+    required: ['issues']
+  }
+};
+
+export function llmRuleId(category: ProofreadingCategory) {
+  return `${LLM_RULE_PREFIX}${category}`;
+}
+
+/**
+ * Local rules and the model review categories, which can be dismissed like rules
+ */
+export function listProofreadingRules() {
+  return [
+    ...PROOFREADING_RULES.map((rule) => ({ id: rule.id, category: rule.category, source: 'rules', description: rule.description })),
+    ...PROOFREADING_CATEGORIES.map((category) => ({
+      id: llmRuleId(category),
+      category,
+      source: 'llm',
+      description: `${category} issues found by the AI review`
+    }))
+  ];
+}
+
+export function isProofreadingRuleId(id: any): id is string {
+  if (typeof id !== 'string') {
+    return false;
+  }
+
+  return Boolean(findProofreadingRule(id)) ||
+    (id.startsWith(LLM_RULE_PREFIX) && PROOFREADING_CATEGORIES.includes(id.substring(LLM_RULE_PREFIX.length) as ProofreadingCategory));
+}
+
+export async function getDismissedRules(documentId: number): Promise<string[]> {
+  const dismissals = await prisma.proofreadingDismissal.findMany({
+    where: { documentId },
+    orderBy: { createdAt: 'asc' },
+    select: { ruleId: true }
+  });
+
+  return dismissals.map((dismissal) => dismissal.ruleId);
+}
+
+export async function dismissRule(documentId: number, ruleId: string, userId: number) {
+  await prisma.proofreadingDismissal.upsert({
+    where: { documentId_ruleId: { documentId, ruleId } },
+    create: { documentId, ruleId, dismissedBy: userId },
+    update: {}
+  });
+}
+
+/**
+ * @returns Whether the rule had been dismissed
+ */
+export async function restoreRule(documentId: number, ruleId: string): Promise<boolean> {
+  const { count } = await prisma.proofreadingDismissal.deleteMany({ where: { documentId, ruleId } });
+  return count > 0;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Offsets of an excerpt quoted by the model, tolerant of whitespace differences.
+ * Quotes are located in order, so a repeated excerpt maps to its next use.
+ */
+function locateExcerpt(text: string, excerpt: string, from: number): { start: number; end: number } | null {
+  const words = excerpt.trim().split(/\s+/).filter(Boolean);
+
+  if (words.length === 0) {
+    return null;
+  }
+
+  const source = words.map(escapeRegExp).join('\\s+');
+
+  for (const flags of ['g', 'gi']) {
+    const pattern = new RegExp(source, flags);
+
+    for (const position of [from, 0]) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(text);
+
+      if (match) {
+        return { start: match.index, end: match.index + match[0].length };
+      }
+    }
+  }
+
+  return null;
+}
+
+function overlaps(a: { start: number; end: number }, b: { start: number; end: number }) {
+  return a.start < b.end && b.start < a.end;
+}
+
+function runRules(text: string, rules: ProofreadingRule[], offset: number): ProofreadingIssue[] {
+  return rules.flatMap((rule) => rule.check(text).map((match) => ({
+    id: `${rule.id}:${offset + match.start}-${offset + match.end}`,
+    ruleId: rule.id,
+    category: rule.category,
+    source: 'rules' as const,
+    start: offset + match.start,
+    end: offset + match.end,
+    text: text.substring(match.start, match.end),
+    message: match.message,
+    suggestions: match.suggestions
+  })));
+}
+
+async function reviewWithModel(
+  text: string,
+  categories: ProofreadingCategory[],
+  offset: number
+): Promise<{ issues: ProofreadingIssue[]; review: ProofreadingReview; usage?: CreditUsage }> {
+  const truncated = text.length > MAX_REVIEW_CHARS;
+  const reviewed = text.substring(0, MAX_REVIEW_CHARS);
+  // The masked text is padded where markup was; the model gets it compacted
+  const compacted = reviewed.replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+
+  const prompt = `You are a careful copy editor. Review the text below for style and correctness.
+
+Report issues in these categories only: ${categories.join(', ')}.
+Focus on what simple rules cannot catch: unclear or awkward sentences, wrong word choice, grammar errors,
+needless passive voice and repetitive phrasing. Do not report matters of taste, and do not rewrite the whole text.
+For each issue quote the exact excerpt it is about (a few words, copied character for character),
+explain the problem in one sentence and give up to 3 replacements for the excerpt.
+Return an empty list if the text has no real issues.
+
+Text:
+${compacted}`;
+
+  const { data, result } = await generateStructuredForRole<ReviewOutput>('proofreading', prompt, REVIEW_OUTPUT, {
+    temperature: 0.2
+  });
+
+  let cursor = 0;
+  const issues: ProofreadingIssue[] = [];
+
+  for (const issue of data.issues) {
+    if (!categories.includes(issue.category)) {
+      continue;
+    }
+
+    const range = locateExcerpt(reviewed, issue.text, cursor);
+    if (!range) {
+      continue;
+    }
+    cursor = range.end;
+
+    const ruleId = llmRuleId(issue.category);
+    issues.push({
+      id: `${ruleId}:${offset + range.start}-${offset + range.end}`,
+      ruleId,
+      category: issue.category,
+      source: 'llm',
+      start: offset + range.start,
+      end: offset + range.end,
+      text: reviewed.substring(range.start, range.end),
+      message: issue.message,
+      suggestions: (issue.suggestions || []).filter((suggestion) => suggestion.trim() !== issue.text.trim())
+    });
+  }
+
+  return {
+    issues,
+    review: { status: 'completed', model: result.model, truncated },
+    usage: toCreditUsage(result.usage, result.model)
+  };
+}
+
+/**
+ * Proofread a range of document content: local rules always run, and unless
+ * `review` is false the model reviews the range for style. Model issues that
+ * overlap a rule issue of the same category are dropped, as are issues of
+ * dismissed rules. A failed review still returns the rule issues.
+ * Offsets are in the document content, which may be HTML.
+ */
+export async function proofreadContent(
+  content: string,
+  range: { start: number; end: number },
+  options: { review: boolean; dismissedRules: string[] }
+): Promise<{ issues: ProofreadingIssue[]; review: ProofreadingReview; usage?: CreditUsage }> {
+  const dismissed = new Set(options.dismissedRules);
+  const text = maskHtmlPreservingOffsets(content).substring(range.start, range.end);
+
+  const ruleIssues = runRules(text, PROOFREADING_RULES.filter((rule) => !dismissed.has(rule.id)), range.start);
+
+  const categories = PROOFREADING_CATEGORIES.filter((category) => !dismissed.has(llmRuleId(category)));
+  let review: ProofreadingReview = { status: 'skipped' };
+  let modelIssues: ProofreadingIssue[] = [];
+  let usage: CreditUsage | undefined;
+
+  if (!options.review) {
+    review = { status: 'skipped', reason: 'Review was not requested' };
+  } else if (!text.trim() || categories.length === 0) {
+    review = { status: 'skipped', reason: text.trim() ? 'All review categories are dismissed' : 'The range has no text' };
+  } else {
+    try {
+      ({ issues: modelIssues, review, usage } = await reviewWithModel(text, categories, range.start));
+    } catch (error: any) {
+      console.warn('Proofreading review failed, returning rule issues only:', error.message);
+      review = { status: 'failed', reason: error.code === 'LLM_INVALID_OUTPUT' ? 'The AI review returned an unusable response' : 'The AI service is unavailable' };
+    }
+  }
+
+  const issues = [...ruleIssues];
+  for (const issue of modelIssues) {
+    if (!issues.some((existing) => overlaps(existing, issue) && (existing.source === 'llm' || existing.category === issue.category))) {
+      issues.push(issue);
+    }
+  }
+
+  issues.sort((a, b) => a.start - b.start || a.end - b.end);
+
+  return { issues, review, usage };
+}
@@ -0,0 +1,368 @@
+import { ProofreadingRule, RuleMatch } from '../../types/proofreading.types';
+
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+const LONG_SENTENCE_WORDS = 40;
+// How many words apart two uses of the same word still count as an echo
+const ECHO_WINDOW = 12;
+const ECHO_MIN_LENGTH = 5;
+
+const COMMON_MISSPELLINGS: Record<string, string> = {
+  accomodate: 'accommodate',
+  acheive: 'achieve',
+  acknowlege: 'acknowledge',
+  adress: 'address',
+  alot: 'a lot',
+  arguement: 'argument',
+  begining: 'beginning',
+  beleive: 'believe',
+  calender: 'calendar',
+  commited: 'committed',
+  definately: 'definitely',
+  enviroment: 'environment',
+  existance: 'existence',
+  goverment: 'government',
+  independant: 'independent',
+  neccessary: 'necessary',
+  noticable: 'noticeable',
+  occured: 'occurred',
+  occurence: 'occurrence',
+  publically: 'publicly',
+  recieve: 'receive',
+  reccomend: 'recommend',
+  seperate: 'separate',
+  succesful: 'successful',
+  teh: 'the',
+  thier: 'their',
+  tommorow: 'tomorrow',
+  truely: 'truly',
+  untill: 'until',
+  wich: 'which',
+  wierd: 'weird'
+};
+
+const WORDY_PHRASES: Record<string, string> = {
+  'in order to': 'to',
+  'due to the fact that': 'because',
+  'in spite of the fact that': 'although',
+  'at this point in time': 'now',
+  'in the event that': 'if',
+  'for the purpose of': 'for',
+  'a large number of': 'many',
+  'has the ability to': 'can',
+  'with regard to': 'about',
+  'in the near future': 'soon',
+  'it is important to note that': ''
+};
+
+const IRREGULAR_PARTICIPLES = new Set([
+  'begun', 'brought', 'built', 'bought', 'caught', 'chosen', 'done', 'drawn', 'driven', 'eaten', 'found',
+  'forgotten', 'given', 'grown', 'held', 'hidden', 'kept', 'known', 'left', 'lost', 'made', 'meant', 'met',
+  'paid', 'put', 'seen', 'sent', 'set', 'shown', 'sold', 'spent', 'spoken', 'stolen', 'taken', 'taught',
+  'told', 'thought', 'thrown', 'torn', 'won', 'worn', 'written'
+]);
+
+// -ed words that usually describe a state rather than an action done to the subject
+const STATE_ADJECTIVES = new Set([
+  'bored', 'concerned', 'excited', 'interested', 'involved', 'married', 'pleased', 'related', 'supposed',
+  'surprised', 'tired', 'used', 'worried', 'based', 'located', 'limited', 'required', 'needed', 'advanced'
+]);
+
+const ECHO_IGNORED = new Set([
+  'about', 'after', 'again', 'because', 'before', 'being', 'between', 'could', 'every', 'other', 'should',
+  'their', 'there', 'these', 'thing', 'things', 'those', 'through', 'under', 'where', 'which', 'while',
+  'would', 'your', 'yours'
+]);
+
+const ABBREVIATIONS = /\b(e\.g|i\.e|etc|vs|approx|cf|mr|mrs|ms|dr|st|no|fig)\.$/i;
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function words(text: string): Word[] {
+  return Array.from(text.matchAll(WORD), (match) => ({
+    text: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+/**
+ * A replacement in the letter case of the text it replaces
+ */
+function matchCase(replacement: string, original: string) {
+  if (original.length > 1 && original === original.toUpperCase()) {
+    return replacement.toUpperCase();
+  }
+  if (original[0] === original[0].toUpperCase() && original[0] !== original[0].toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+/**
+ * Sentences with their offsets; paragraph breaks always end a sentence
+ */
+function sentences(text: string) {
+  return Array.from(text.matchAll(/[^.!?\n]+(?:[.!?]+|(?=\n)|$)/g), (match) => ({
+    text: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length
+  })).filter((sentence) => sentence.text.trim().length > 0);
+}
+
+const repeatedWord: ProofreadingRule = {
+  id: 'repeated-word',
+  category: 'repetition',
+  description: 'The same word twice in a row ("the the")',
+  check(text) {
+    const list = words(text);
+    const matches: RuleMatch[] = [];
+
+    for (let index = 1; index < list.length; index++) {
+      const previous = list[index - 1];
+      const current = list[index];
+      const lower = current.text.toLowerCase();
+
+      if (
+        lower === previous.text.toLowerCase() &&
+        /^\s+$/.test(text.substring(previous.end, current.start)) &&
+        !/^\d/.test(lower) &&
+        lower !== 'that' &&
+        lower !== 'had'
+      ) {
+        matches.push({
+          start: previous.start,
+          end: current.end,
+          message: `"${current.text}" is repeated`,
+          suggestions: [previous.text]
+        });
+      }
+    }
+
+    return matches;
+  }
+};
+
+const commonMisspelling: ProofreadingRule = {
+  id: 'common-misspelling',
+  category: 'spelling',
+  description: 'Frequently misspelled words',
+  check(text) {
+    return words(text).flatMap((word) => {
+      const correction = COMMON_MISSPELLINGS[word.text.toLowerCase()];
+
+      return correction
+        ? [{ start: word.start, end: word.end, message: `Possible misspelling of "${correction}"`, suggestions: [matchCase(correction, word.text)] }]
+        : [];
+    });
+  }
+};
+
+function startsWithVowelSound(word: string): boolean | null {
+  const lower = word.toLowerCase();
+
+  if (/^(hour|honest|honou?r|heir)/.test(lower)) {
+    return true;
+  }
+  if (/^(uni|use|usu|uti|ure|eu|ewe|one|once|ubiq)/.test(lower)) {
+    return false;
+  }
+  // Abbreviations and numbers are read letter by letter, which is too uncertain to flag
+  if (!/^\p{Ll}/u.test(word)) {
+    return /^\p{Lu}\p{Ll}/u.test(word) ? /^[aeiou]/i.test(word) : null;
+  }
+
+  return /^[aeiou]/.test(lower);
+}
+
+const articleAgreement: ProofreadingRule = {
+  id: 'article-agreement',
+  category: 'grammar',
+  description: '"a" before a vowel sound or "an" before a consonant sound',
+  check(text) {
+    const list = words(text);
+    const matches: RuleMatch[] = [];
+
+    for (let index = 0; index < list.length - 1; index++) {
+      const article = list[index];
+      const lower = article.text.toLowerCase();
+
+      if ((lower !== 'a' && lower !== 'an') || !/^\s+$/.test(text.substring(article.end, list[index + 1].start))) {
+        continue;
+      }
+
+      const next = list[index + 1].text;
+      // "a an" and "a the" are doubled articles, not a choice between the two
+      if (/^(a|an|the)$/i.test(next)) {
+        continue;
+      }
+
+      const vowelSound = startsWithVowelSound(next);
+
+      if (vowelSound === true && lower === 'a') {
+        matches.push({ start: article.start, end: article.end, message: `Use "an" before "${next}"`, suggestions: [matchCase('an', article.text)] });
+      } else if (vowelSound === false && lower === 'an') {
+        matches.push({ start: article.start, end: article.end, message: `Use "a" before "${next}"`, suggestions: [matchCase('a', article.text)] });
+      }
+    }
+
+    return matches;
+  }
+};
+
+const sentenceCapitalization: ProofreadingRule = {
+  id: 'sentence-capitalization',
+  category: 'grammar',
+  description: 'Sentences that start with a lowercase letter, and a lowercase "i"',
+  check(text) {
+    const matches: RuleMatch[] = [];
+
+    for (const match of text.matchAll(/([.!?])(\s+)(\p{Ll})/gu)) {
+      const before = text.substring(0, match.index! + 1);
+
+      if (match[1] === '.' && (ABBREVIATIONS.test(before) || before.endsWith('..'))) {
+        continue;
+      }
+
+      const start = match.index! + match[1].length + match[2].length;
+      matches.push({ start, end: start + 1, message: 'Start the sentence with a capital letter', suggestions: [match[3].toUpperCase()] });
+    }
+
+    for (const word of words(text)) {
+      const reported = matches.some((match) => match.start === word.start);
+
+      if (!reported && (word.text === 'i' || /^i['’](m|ve|ll|d)$/.test(word.text))) {
+        matches.push({ start: word.start, end: word.start + 1, message: 'The pronoun "I" is always capitalized', suggestions: ['I'] });
+      }
+    }
+
+    return matches;
+  }
+};
+
+const passiveVoice: ProofreadingRule = {
+  id: 'passive-voice',
+  category: 'passive-voice',
+  description: 'A form of "to be" followed by a past participle',
+  check(text) {
+    const pattern = /\b(am|is|are|was|were|be|been|being)\s+(?:\p{L}+ly\s+)?(\p{L}+)\b/giu;
+    const matches: RuleMatch[] = [];
+
+    for (const match of text.matchAll(pattern)) {
+      const participle = match[2].toLowerCase();
+
+      if ((!participle.endsWith('ed') || participle.length < 5) && !IRREGULAR_PARTICIPLES.has(participle)) {
+        continue;
+      }
+      if (STATE_ADJECTIVES.has(participle)) {
+        continue;
+      }
+
+      matches.push({
+        start: match.index!,
+        end: match.index! + match[0].length,
+        message: 'Passive voice: consider saying who performs the action',
+        suggestions: []
+      });
+    }
+
+    return matches;
+  }
+};
+
+const wordyPhrase: ProofreadingRule = {
+  id: 'wordy-phrase',
+  category: 'clarity',
+  description: 'Phrases that say in several words what one word says',
+  check(text) {
+    const matches: RuleMatch[] = [];
+
+    for (const [phrase, replacement] of Object.entries(WORDY_PHRASES)) {
+      const pattern = new RegExp(`\\b${phrase.replace(/ /g, '\\s+')}\\b`, 'gi');
+
+      for (const match of text.matchAll(pattern)) {
+        matches.push({
+          start: match.index!,
+          end: match.index! + match[0].length,
+          message: replacement ? `"${match[0]}" can be shortened to "${replacement}"` : `"${match[0]}" can usually be left out`,
+          suggestions: [replacement ? matchCase(replacement, match[0]) : '']
+        });
+      }
+    }
+
+    return matches;
+  }
+};
+
+const longSentence: ProofreadingRule = {
+  id: 'long-sentence',
+  category: 'clarity',
+  description: `Sentences longer than ${LONG_SENTENCE_WORDS} words`,
+  check(text) {
+    return sentences(text).flatMap((sentence) => {
+      const count = words(sentence.text).length;
+      const leading = sentence.text.length - sentence.text.trimStart().length;
+
+      return count > LONG_SENTENCE_WORDS
+        ? [{
+          start: sentence.start + leading,
+          end: sentence.end,
+          message: `This sentence has ${count} words; consider splitting it`,
+          suggestions: []
+        }]
+        : [];
+    });
+  }
+};
+
+const wordEcho: ProofreadingRule = {
+  id: 'word-echo',
+  category: 'repetition',
+  description: `The same word used again within ${ECHO_WINDOW} words`,
+  check(text) {
+    const list = words(text);
+    const lastSeen = new Map<string, number>();
+    const matches: RuleMatch[] = [];
+
+    list.forEach((word, index) => {
+      const lower = word.text.toLowerCase();
+
+      if (lower.length < ECHO_MIN_LENGTH || ECHO_IGNORED.has(lower) || /^\d/.test(lower)) {
+        return;
+      }
+
+      const previous = lastSeen.get(lower);
+      // Back-to-back repeats are reported by repeated-word
+      if (previous !== undefined && index - previous > 1 && index - previous <= ECHO_WINDOW) {
+        matches.push({
+          start: word.start,
+          end: word.end,
+          message: `"${word.text}" was used just before; consider a synonym or rephrasing`,
+          suggestions: []
+        });
+      }
+
+      lastSeen.set(lower, index);
+    });
+
+    return matches;
+  }
+};
+
+export const PROOFREADING_RULES: ProofreadingRule[] = [
+  commonMisspelling,
+  repeatedWord,
+  articleAgreement,
+  sentenceCapitalization,
+  passiveVoice,
+  wordyPhrase,
+  longSentence,
+  wordEcho
+];
+
+export function findProofreadingRule(id: string): ProofreadingRule | undefined {
+  return PROOFREADING_RULES.find((rule) => rule.id === id);
+}
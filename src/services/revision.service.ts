@@ -0,0 +1,155 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { RevisionSource } from '../types/document.types';
+import { maskHtmlPreservingOffsets } from '../utils/content.utils';
+import { diffText } from '../utils/diff.utils';
+
+// Recent AI replies of a document that changes are attributed to
+const AI_REPLY_WINDOW_MS = 60 * 60 * 1000;
+const AI_REPLY_LIMIT = 20;
+// Shorter insertions are too common to attribute to the assistant
+const AI_MIN_INSERTED_CHARS = 20;
+
+interface CreateRevisionInput {
+  documentId: number;
+  title: string;
+  content: string;
+  source: RevisionSource;
+  createdBy?: number | null;
+  restoredFromVersion?: number;
+}
+
+/**
+ * Append a revision with the next version number of the document
+ * Must run inside the transaction that writes the document itself. The
+ * document row is locked so concurrent writers cannot pick the same number.
+ */
+export async function createRevision(tx: Prisma.TransactionClient, input: CreateRevisionInput) {
+  await tx.$queryRaw`SELECT id FROM documents WHERE id = ${input.documentId} FOR UPDATE`;
+
+  const latest = await tx.documentRevision.findFirst({
+    where: { documentId: input.documentId },
+    orderBy: { version: 'desc' },
+    select: { version: true }
+  });
+
+  return tx.documentRevision.create({
+    data: {
+      ...input,
+      version: (latest?.version ?? 0) + 1
+    }
+  });
+}
+
+function toComparableText(content: string) {
+  return maskHtmlPreservingOffsets(content).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether a content change was made by the assistant or by hand. A change is
+ * tagged "ai" when most of the text it inserts comes from one of the
+ * document's recent AI replies (generations and transforms), so the tag
+ * cannot be set by the client.
+ */
+export async function detectRevisionSource(
+  documentId: number,
+  previousContent: string,
+  content: string
+): Promise<RevisionSource> {
+  const inserted = diffText(toComparableText(previousContent), toComparableText(content), 'word').changes
+    .filter((change) => change.type === 'added')
+    .map((change) => change.value.trim())
+    .filter(Boolean);
+  const insertedChars = inserted.reduce((total, text) => total + text.length, 0);
+
+  if (insertedChars < AI_MIN_INSERTED_CHARS) {
+    return 'manual';
+  }
+
+  const replies = await prisma.chatMessage.findMany({
+    where: {
+      documentId,
+      role: 'ai',
+      createdAt: { gte: new Date(Date.now() - AI_REPLY_WINDOW_MS) }
+    },
+    orderBy: { createdAt: 'desc' },
+    take: AI_REPLY_LIMIT,
+    select: { content: true }
+  });
+
+  const fromReply = replies.some(({ content: reply }) => {
+    const text = toComparableText(reply);
+    const matched = inserted.filter((chunk) => text.includes(chunk)).reduce((total, chunk) => total + chunk.length, 0);
+    return matched >= AI_MIN_INSERTED_CHARS && matched * 2 >= insertedChars;
+  });
+
+  return fromReply ? 'ai' : 'manual';
+}
+
+export async function listRevisions(documentId: number) {
+  return prisma.documentRevision.findMany({
+    where: { documentId },
+    orderBy: { version: 'desc' },
+    select: {
+      id: true,
+      version: true,
+      title: true,
+      source: true,
+      restoredFromVersion: true,
+      createdBy: true,
+      createdAt: true
+    }
+  });
+}
+
+export async function getRevision(documentId: number, version: number) {
+  return prisma.documentRevision.findUnique({
+    where: {
+      documentId_version: { documentId, version }
+    }
+  });
+}
+
+export async function getLatestRevision(documentId: number) {
+  return prisma.documentRevision.findFirst({
+    where: { documentId },
+    orderBy: { version: 'desc' }
+  });
+}
+
+/**
+ * Make an old revision the current document content by appending it as a new head
+ */
+export async function restoreRevision(documentId: number, version: number, userId: number) {
+  return prisma.$transaction(async (tx) => {
+    const revision = await tx.documentRevision.findUnique({
+      where: {
+        documentId_version: { documentId, version }
+      }
+    });
+
+    if (!revision) {
+      return null;
+    }
+
+    const document = await tx.documents.update({
+      where: { id: documentId },
+      data: {
+        title: revision.title,
+        content: revision.content,
+        version: { increment: 1 }
+      }
+    });
+
+    const head = await createRevision(tx, {
+      documentId,
+      title: revision.title,
+      content: revision.content,
+      source: 'restore',
+      createdBy: userId,
+      restoredFromVersion: revision.version
+    });
+
+    return { document, revision: head };
+  });
+}
@@ -0,0 +1,118 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { TokenPayload } from '../types/auth.types';
+import { DocumentSearchOptions, DocumentSearchResult } from '../types/document.types';
+import { decodeHtmlEntities, escapeHtml } from '../utils/content.utils';
+
+// Private-use characters mark the matches, so the text can be escaped before <mark> is added
+const MATCH_START = '\uE000';
+const MATCH_END = '\uE001';
+const MARKERS = /[\uE000\uE001]/g;
+
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "`;
+const TITLE_HEADLINE_OPTIONS = `HighlightAll=true, StartSel=${MATCH_START}, StopSel=${MATCH_END}`;
+
+/**
+ * Turn free text into a tsquery where every term must match and the last
+ * term is a prefix, so results update while the user is still typing
+ */
+export function buildPrefixQuery(query: string): string | null {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0)
+    .slice(0, 10);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms
+    .map((term, index) => (index === terms.length - 1 ? `${term}:*` : term))
+    .join(' & ');
+}
+
+/**
+ * Highlighted text that is safe to render as HTML: everything is escaped and
+ * only the <mark> tags around matches are markup
+ */
+function toHighlightHtml(text: string, decodeEntities = false) {
+  return text
+    .split(/([\uE000\uE001])/)
+    .map((part) => {
+      if (part === MATCH_START) {
+        return '<mark>';
+      }
+      if (part === MATCH_END) {
+        return '</mark>';
+      }
+      // A decoded &#57344; must not turn into a marker
+      return escapeHtml((decodeEntities ? decodeHtmlEntities(part) : part).replace(MARKERS, ''));
+    })
+    .join('');
+}
+
+/**
+ * Ranked full-text search over the titles and bodies of documents the user can access
+ */
+export async function searchDocuments(user: TokenPayload, options: DocumentSearchOptions) {
+  const tsQuery = buildPrefixQuery(options.query);
+
+  if (!tsQuery) {
+    return [];
+  }
+
+  const filters: Prisma.Sql[] = [
+    Prisma.sql`d."search_vector" @@ q.query`,
+    Prisma.sql`d."deleted_at" IS NULL`,
+    Prisma.sql`(
+      d."created_by" = ${user.userId}
+      OR EXISTS (
+        SELECT 1 FROM "document_collaborators" c
+        WHERE c."document_id" = d."id"
+          AND (c."user_id" = ${user.userId} OR c."email" = ${user.email.toLowerCase()})
+      )
+    )`
+  ];
+
+  if (options.from) {
+    filters.push(Prisma.sql`d."updated_at" >= ${options.from}`);
+  }
+
+  if (options.to) {
+    filters.push(Prisma.sql`d."updated_at" <= ${options.to}`);
+  }
+
+  // Headlines are expensive, so they are only built for the page of results returned.
+  // Snippets come from the text of the content: tags are stripped, entities decoded below.
+  const results = await prisma.$queryRaw<DocumentSearchResult[]>`
+    SELECT
+      ranked."id",
+      ranked."title",
+      ts_headline('english', translate(ranked."title", ${MATCH_START + MATCH_END}, ''), ranked.query, ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+      ts_headline(
+        'english',
+        translate(regexp_replace(ranked."content", '<[^>]*>', ' ', 'g'), ${MATCH_START + MATCH_END}, ''),
+        ranked.query,
+        ${HEADLINE_OPTIONS}
+      ) AS "snippet",
+      ranked."rank",
+      ranked."created_at" AS "createdAt",
+      ranked."updated_at" AS "updatedAt"
+    FROM (
+      SELECT d."id", d."title", d."content", d."created_at", d."updated_at", q.query,
+        ts_rank(d."search_vector", q.query)::float8 AS "rank"
+      FROM "documents" d, to_tsquery('english', ${tsQuery}) AS q(query)
+      WHERE ${Prisma.join(filters, ' AND ')}
+      ORDER BY "rank" DESC, d."updated_at" DESC
+      LIMIT ${options.limit} OFFSET ${options.offset}
+    ) ranked
+    ORDER BY ranked."rank" DESC, ranked."updated_at" DESC
+  `;
+
+  return results.map((result) => ({
+    ...result,
+    titleHighlight: toHighlightHtml(result.titleHighlight),
+    snippet: toHighlightHtml(result.snippet.replace(/\s+/g, ' ').trim(), true)
+  }));
+}
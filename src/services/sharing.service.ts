@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { prisma } from '../db/prisma';
+import { TokenPayload } from '../types/auth.types';
+import { CollaboratorRole } from '../types/document.types';
+import { EmailService } from './email.service';
+import { getDocumentRole, hasDocumentRole } from '../policies/document.policy';
+
+/**
+ * Add (or update) a collaborator by email and notify them
+ */
+export async function inviteCollaborator(
+  document: { id: number; title: string },
+  email: string,
+  role: CollaboratorRole,
+  inviter: TokenPayload
+) {
+  const normalizedEmail = email.trim().toLowerCase();
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true }
+  });
+
+  const collaborator = await prisma.documentCollaborator.upsert({
+    where: {
+      documentId_email: { documentId: document.id, email: normalizedEmail }
+    },
+    create: {
+      documentId: document.id,
+      email: normalizedEmail,
+      userId: existingUser?.id,
+      role,
+      invitedBy: inviter.userId
+    },
+    update: { role }
+  });
+
+  try {
+    await EmailService.sendDocumentInvitationEmail(normalizedEmail, {
+      inviterEmail: inviter.email,
+      documentId: document.id,
+      documentTitle: document.title,
+      role
+    });
+  } catch (emailError) {
+    // The collaborator still has access; the email is only a notification
+    console.error(`Error sending document invitation to ${normalizedEmail}:`, emailError);
+  }
+
+  return collaborator;
+}
+
+export async function listCollaborators(documentId: number) {
+  return prisma.documentCollaborator.findMany({
+    where: { documentId },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      user: {
+        select: { id: true, firstName: true, lastName: true }
+      }
+    }
+  });
+}
+
+export async function createShareLink(documentId: number, role: CollaboratorRole, createdBy: number, expiresInDays?: number) {
+  const expiresAt = expiresInDays
+    ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  return prisma.documentShareLink.create({
+    data: {
+      documentId,
+      token: crypto.randomBytes(24).toString('hex'),
+      role,
+      createdBy,
+      expiresAt
+    }
+  });
+}
+
+export async function listShareLinks(documentId: number) {
+  return prisma.documentShareLink.findMany({
+    where: { documentId, revokedAt: null },
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+/**
+ * Join a document through a share link. Returns null if the link is unknown,
+ * revoked or expired. Existing access is never downgraded by a link.
+ */
+export async function redeemShareLink(token: string, user: TokenPayload) {
+  const link = await prisma.documentShareLink.findUnique({
+    where: { token },
+    include: { document: true }
+  });
+
+  if (!link || link.revokedAt || link.document.deletedAt || (link.expiresAt && link.expiresAt < new Date())) {
+    return null;
+  }
+
+  const currentRole = await getDocumentRole(link.document, user);
+  const linkRole = link.role as CollaboratorRole;
+
+  if (currentRole && hasDocumentRole(currentRole, linkRole)) {
+    return { document: link.document, role: currentRole };
+  }
+
+  await prisma.documentCollaborator.upsert({
+    where: {
+      documentId_email: { documentId: link.documentId, email: user.email.toLowerCase() }
+    },
+    create: {
+      documentId: link.documentId,
+      email: user.email.toLowerCase(),
+      userId: user.userId,
+      role: linkRole,
+      invitedBy: link.createdBy
+    },
+    update: {
+      userId: user.userId,
+      role: linkRole
+    }
+  });
+
+  return { document: link.document, role: linkRole };
+}
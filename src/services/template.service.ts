@@ -0,0 +1,184 @@
+import { DocumentTemplate, Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { TemplateFillResult, TemplateInput, TemplateScope } from '../types/template.types';
+import { escapeHtml } from '../utils/content.utils';
+import { error_codes, throwError } from '../utils/httpWrapper';
+import { generateStructuredForRole } from './llm/structured';
+import { toCreditUsage } from './credit.service';
+
+// {{recipient}}, {{ company_name }}
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/**
+ * Variable names used in a template, in order of first appearance
+ */
+export function extractTemplateVariables(content: string): string[] {
+  const names = Array.from(content.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Substitute variable values into template content. Values are escaped
+ * because template content is stored as editor HTML.
+ */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  const missing = extractTemplateVariables(content).filter(
+    (name) => typeof values[name] !== 'string' || values[name].trim().length === 0
+  );
+
+  if (missing.length > 0) {
+    const error = throwError(`Missing values for template variables: ${missing.join(', ')}`, error_codes.BAD_REQUEST);
+    error.details = { missingVariables: missing };
+    throw error;
+  }
+
+  return content.replace(VARIABLE_PATTERN, (_, name: string) => escapeHtml(values[name]).replace(/\n/g, '<br>'));
+}
+
+export async function listTemplates(userId: number, scope?: TemplateScope) {
+  const where: Prisma.DocumentTemplateWhereInput = scope === 'system'
+    ? { isSystem: true }
+    : scope === 'personal'
+      ? { ownerId: userId, isSystem: false }
+      : { OR: [{ isSystem: true }, { ownerId: userId }] };
+
+  return prisma.documentTemplate.findMany({
+    where,
+    orderBy: [{ isSystem: 'desc' }, { name: 'asc' }]
+  });
+}
+
+function parseTemplateId(templateId: number | string) {
+  return typeof templateId === 'string' ? parseInt(templateId) : templateId;
+}
+
+/**
+ * A system template or one of the user's own templates
+ */
+export async function findAccessibleTemplate(templateId: number | string, userId: number) {
+  const id = parseTemplateId(templateId);
+
+  const template = isNaN(id) ? null : await prisma.documentTemplate.findFirst({
+    where: { id, OR: [{ isSystem: true }, { ownerId: userId }] }
+  });
+
+  if (!template) {
+    throw throwError('Template not found', error_codes.NOT_FOUND);
+  }
+
+  return template;
+}
+
+/**
+ * A personal template the user may change
+ */
+export async function findPersonalTemplate(templateId: number | string, userId: number) {
+  const id = parseTemplateId(templateId);
+
+  const template = isNaN(id) ? null : await prisma.documentTemplate.findFirst({
+    where: { id, ownerId: userId, isSystem: false }
+  });
+
+  if (!template) {
+    throw throwError('Template not found', error_codes.NOT_FOUND);
+  }
+
+  return template;
+}
+
+export async function findSystemTemplate(templateId: number | string) {
+  const id = parseTemplateId(templateId);
+
+  const template = isNaN(id) ? null : await prisma.documentTemplate.findFirst({
+    where: { id, isSystem: true }
+  });
+
+  if (!template) {
+    throw throwError('Template not found', error_codes.NOT_FOUND);
+  }
+
+  return template;
+}
+
+export async function createTemplate(input: TemplateInput, ownerId: number | null) {
+  return prisma.documentTemplate.create({
+    data: {
+      name: input.name!,
+      description: input.description ?? null,
+      category: input.category ?? null,
+      content: input.content ?? '',
+      variables: extractTemplateVariables(input.content ?? ''),
+      isSystem: ownerId === null,
+      ownerId
+    }
+  });
+}
+
+export async function updateTemplate(template: DocumentTemplate, input: TemplateInput) {
+  return prisma.documentTemplate.update({
+    where: { id: template.id },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.category !== undefined && { category: input.category }),
+      ...(input.content !== undefined && {
+        content: input.content,
+        variables: extractTemplateVariables(input.content)
+      })
+    }
+  });
+}
+
+/**
+ * Ask the templates model to propose values for a template's variables from a short brief
+ * Variables the model cannot infer are returned as empty strings.
+ */
+export async function fillTemplateFromBrief(template: DocumentTemplate, brief: string): Promise<TemplateFillResult> {
+  const variables = template.variables;
+
+  if (variables.length === 0) {
+    return { values: {}, missingVariables: [] };
+  }
+
+  const prompt = `You fill in variables for a document template based on a brief.
+
+Template name: ${template.name}
+${template.description ? `Template description: ${template.description}\n` : ''}Template content:
+${template.content}
+
+Brief:
+${brief}
+
+Return ONLY a JSON object whose keys are exactly these variable names: ${variables.join(', ')}.
+Each value must be plain text suitable for inserting in place of {{variable}}.
+Use an empty string for any variable that cannot be determined from the brief.`;
+
+  let structured;
+  try {
+    structured = await generateStructuredForRole<Record<string, string>>('templates', prompt, {
+      name: 'template_variables',
+      // Nothing is required: variables the brief does not cover are left empty
+      schema: {
+        type: 'object',
+        properties: Object.fromEntries(variables.map((name) => [name, { type: 'string' as const, nullable: true }]))
+      }
+    });
+  } catch (error: any) {
+    if (error.code === 'LLM_INVALID_OUTPUT') {
+      throw throwError('Could not fill the template from the brief, please try again', error_codes.SERVICE_UNAVAILABLE);
+    }
+    throw error;
+  }
+
+  const { data, result } = structured;
+  const values: Record<string, string> = {};
+  variables.forEach((name) => {
+    values[name] = (data[name] || '').trim();
+  });
+
+  return {
+    values,
+    missingVariables: variables.filter((name) => values[name].length === 0),
+    usage: toCreditUsage(result.usage, result.model)
+  };
+}
@@ -0,0 +1,162 @@
+import { LLMModelSelection, LLMResult } from '../types/llm.types';
+import { TransformInput, TransformOperation, TransformOptions, TransformTone } from '../types/transform.types';
+import { cleanAgentResponse } from '../utils/agentResponse.utils';
+import { joinToSurroundings } from '../utils/completion.utils';
+import { error_codes, throwError } from '../utils/httpWrapper';
+import { generateWith } from './llm';
+
+export const TRANSFORM_TONES: TransformTone[] = ['formal', 'casual', 'persuasive'];
+
+// How much text on either side of the selection is shown to the model
+const SURROUNDING_CONTEXT_CHARS = 1000;
+const CONTINUE_MAX_TOKENS = 300;
+
+interface TransformDefinition {
+  label: string;
+  instruction: (options: TransformOptions) => string;
+  temperature: number;
+  // Output budget relative to the selection's length
+  lengthFactor: number;
+}
+
+export const TRANSFORM_OPERATIONS: Record<TransformOperation, TransformDefinition> = {
+  rephrase: {
+    label: 'Rephrase',
+    instruction: () => 'Rephrase the selected text with different wording while keeping its meaning, tone and length.',
+    temperature: 0.8,
+    lengthFactor: 1.5
+  },
+  shorten: {
+    label: 'Shorten',
+    instruction: () => 'Make the selected text noticeably shorter and more concise without losing its key points.',
+    temperature: 0.5,
+    lengthFactor: 1
+  },
+  expand: {
+    label: 'Expand',
+    instruction: () => 'Expand the selected text with more detail, examples or explanation, in the same voice. Do not add new sections.',
+    temperature: 0.7,
+    lengthFactor: 3
+  },
+  'fix-grammar': {
+    label: 'Fix grammar',
+    instruction: () => 'Correct spelling, grammar and punctuation in the selected text. Change nothing else: keep the wording, style and meaning.',
+    temperature: 0.1,
+    lengthFactor: 1.5
+  },
+  'change-tone': {
+    label: 'Change tone',
+    instruction: ({ tone }) => `Rewrite the selected text in a ${tone} tone, keeping its meaning and roughly its length.`,
+    temperature: 0.7,
+    lengthFactor: 1.5
+  },
+  simplify: {
+    label: 'Simplify',
+    instruction: () => 'Rewrite the selected text in plain, simple language that is easy to read, using short sentences and common words.',
+    temperature: 0.5,
+    lengthFactor: 1.5
+  },
+  translate: {
+    label: 'Translate',
+    instruction: ({ language }) => `Translate the selected text into ${language}. Keep names, numbers and formatting as they are.`,
+    temperature: 0.2,
+    lengthFactor: 2
+  },
+  continue: {
+    label: 'Continue',
+    instruction: () => 'Continue writing from the end of the selected text with the next one to three sentences, matching its style. Return only the new text.',
+    temperature: 0.8,
+    lengthFactor: 0
+  }
+};
+
+export function isTransformOperation(value: any): value is TransformOperation {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TRANSFORM_OPERATIONS, value);
+}
+
+export function isTransformTone(value: any): value is TransformTone {
+  return TRANSFORM_TONES.includes(value);
+}
+
+function buildTransformPrompt(input: TransformInput) {
+  const definition = TRANSFORM_OPERATIONS[input.operation];
+  const before = input.before.slice(-SURROUNDING_CONTEXT_CHARS);
+  const after = input.after.substring(0, SURROUNDING_CONTEXT_CHARS);
+
+  return `You are an editing assistant working on a selection in a user's document.
+
+Task: ${definition.instruction(input)}
+${before ? `\nText before the selection (context only, do not repeat it):\n${before}\n` : ''}
+Selected text:
+${input.selectedText}
+${after ? `\nText after the selection (context only, do not repeat it):\n${after}\n` : ''}
+Keep any inline HTML markup in the selection. Respond with the resulting text only: no preamble, explanations, quotes or labels.`;
+}
+
+/**
+ * Remove quotes the model wrapped around its answer, unless the selection was quoted too
+ */
+function stripWrappingQuotes(text: string, selectedText: string) {
+  const match = text.match(/^(["“'])([\s\S]*)(["”'])$/);
+
+  if (!match || /^["“']/.test(selectedText.trim())) {
+    return text;
+  }
+
+  return match[2].trim();
+}
+
+function maxTokensFor(input: TransformInput) {
+  if (input.operation === 'continue') {
+    return CONTINUE_MAX_TOKENS;
+  }
+
+  // Roughly 4 characters per token
+  const estimate = Math.ceil((input.selectedText.length / 4) * TRANSFORM_OPERATIONS[input.operation].lengthFactor);
+  return Math.min(4000, Math.max(200, estimate));
+}
+
+/**
+ * Run an operation on a selection. The replacement keeps the whitespace around
+ * the selection; for continue it is the selection followed by the new text.
+ * LLM outages are surfaced as 503 errors.
+ */
+export async function transformText(
+  selection: LLMModelSelection,
+  input: TransformInput
+): Promise<{ replacement: string; result: LLMResult }> {
+  let result: LLMResult;
+
+  try {
+    result = await generateWith(selection, buildTransformPrompt(input), {
+      temperature: TRANSFORM_OPERATIONS[input.operation].temperature,
+      maxOutputTokens: maxTokensFor(input)
+    });
+  } catch (error: any) {
+    if (error.status === 503 || error.status === 504) {
+      throw throwError('The AI service is temporarily unavailable. Please try again shortly.', error_codes.SERVICE_UNAVAILABLE);
+    }
+    throw error;
+  }
+
+  // A selection that itself opens like model chatter ("Sure, ...") must not lose that opening
+  const selectionLooksLikeChatter = cleanAgentResponse(input.selectedText) !== input.selectedText.trim();
+  const cleaned = stripWrappingQuotes(
+    selectionLooksLikeChatter ? result.text.trim() : cleanAgentResponse(result.text),
+    input.selectedText
+  );
+
+  if (!cleaned) {
+    throw throwError('The model returned no text, please try again', error_codes.SERVICE_UNAVAILABLE);
+  }
+
+  if (input.operation === 'continue') {
+    const continuation = joinToSurroundings(cleaned, input.before + input.selectedText, input.after, 'continuation');
+    return { replacement: input.selectedText + continuation, result };
+  }
+
+  const leading = input.selectedText.match(/^\s*/)![0];
+  const trailing = input.selectedText.match(/\s*$/)![0];
+
+  return { replacement: leading + cleaned + trailing, result };
+}
@@ -0,0 +1,102 @@
+import { Documents } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { TrashedDocumentSummary } from '../types/document.types';
+import { buildPreview } from './document.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30');
+const PURGE_INTERVAL_MS = parseInt(process.env.TRASH_PURGE_INTERVAL_MS || String(60 * 60 * 1000));
+
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+export function toTrashedSummary(document: Documents): TrashedDocumentSummary {
+  return {
+    id: document.id,
+    title: document.title,
+    preview: buildPreview(document.content),
+    folderId: document.folderId,
+    deletedAt: document.deletedAt!,
+    purgeAt: getPurgeDate(document.deletedAt!)
+  };
+}
+
+export async function trashDocument(documentId: number) {
+  return prisma.documents.update({
+    where: { id: documentId },
+    data: { deletedAt: new Date() }
+  });
+}
+
+/**
+ * Bring a document back from the trash. Its folder may have been deleted in
+ * the meantime, in which case the document is restored to the root.
+ */
+export async function restoreTrashedDocument(documentId: number) {
+  return prisma.documents.update({
+    where: { id: documentId },
+    data: { deletedAt: null }
+  });
+}
+
+/**
+ * Trashed documents owned by a user, most recently deleted first
+ */
+export async function listTrashedDocuments(userId: number) {
+  const documents = await prisma.documents.findMany({
+    where: { createdBy: userId, deletedAt: { not: null } },
+    orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }]
+  });
+
+  return documents.map(toTrashedSummary);
+}
+
+/**
+ * Permanently delete trashed documents. Revisions, chat history and sharing
+ * records are removed with them by the database cascade.
+ */
+export async function purgeTrashedDocuments(userId: number, documentId?: number) {
+  const { count } = await prisma.documents.deleteMany({
+    where: {
+      createdBy: userId,
+      deletedAt: { not: null },
+      ...(documentId !== undefined && { id: documentId })
+    }
+  });
+
+  return count;
+}
+
+export async function purgeExpiredDocuments(now: Date = new Date()) {
+  const { count } = await prisma.documents.deleteMany({
+    where: {
+      deletedAt: { lt: new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS) }
+    }
+  });
+
+  return count;
+}
+
+/**
+ * Periodically purge documents that have been in the trash longer than
+ * TRASH_RETENTION_DAYS
+ */
+export function startTrashPurgeJob() {
+  const run = async () => {
+    try {
+      const count = await purgeExpiredDocuments();
+      if (count > 0) {
+        console.log(`Purged ${count} document(s) from the trash`);
+      }
+    } catch (error) {
+      console.error('Trash purge error:', error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+
+  return timer;
+}
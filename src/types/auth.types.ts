@@ -1,4 +1,7 @@
 import { Request } from 'express';
+import { Documents } from '@prisma/client';
+import { CreditCharge } from './credit.types';
+import { DocumentRole } from './document.types';
 
 export interface User {
   id: number;
@@ -80,4 +83,7 @@ export interface RefreshTokenPayload {
 
 export interface AuthRequest extends Request {
   user?: any;
+  creditCharge?: CreditCharge;
+  document?: Documents;
+  documentRole?: DocumentRole;
 }
@@ -1,12 +1,22 @@
 // Frontend TypeScript types for Autocompletion API
 
+export type AutocompletionStrategy = 'ai' | 'contextual' | 'hybrid';
+
 export interface AutocompletionRequest {
   text: string;
   cursorPosition?: number;
   context?: string;
   documentType?: 'email' | 'article' | 'code' | 'general';
   maxSuggestions?: number;
-  strategy?: 'ai' | 'contextual' | 'hybrid';
+  strategy?: AutocompletionStrategy;
+  // Complete between the text before and after the cursor; defaults to on when there is text after it
+  fillInMiddle?: boolean;
+}
+
+// Offsets into the request text; start === end for an insertion at the cursor
+export interface SuggestionRange {
+  start: number;
+  end: number;
 }
 
 export interface SuggestionItem {
@@ -16,13 +26,41 @@ export interface SuggestionItem {
   confidence: number;
   context?: string;
   preview?: string;
+  // Where the suggestion came from; 'both' when the model and the user's own writing agree
+  source?: 'ai' | 'local' | 'both';
+  // Text that should be replaced by `text`
+  range?: SuggestionRange;
+  // For replacements, the text being rewritten
+  original?: string;
+}
+
+/**
+ * Present when the autocompletion model could not answer: either a fallback
+ * model did, or `offline` suggestions were generated locally
+ */
+export interface SuggestionFallback {
+  requestedProvider: string;
+  requestedModel: string;
+  reason: string;
+  offline: boolean;
+}
+
+export interface SuggestionCacheInfo {
+  hit: boolean;
+  // How old the cached suggestions are, null on a miss
+  ageMs: number | null;
 }
 
 export interface AutocompletionResponse {
   suggestions: SuggestionItem[];
   strategy: string;
+  // Milliseconds spent on the request; whether that included a model call is reported in `cache`
   processingTime: number;
+  // More ranked candidates exist than maxSuggestions allowed
   hasMore: boolean;
+  fallback: SuggestionFallback | null;
+  // Reported next to processingTime rather than inside it; a hit means the model was not called
+  cache: SuggestionCacheInfo;
 }
 
 export interface ApiResponse<T> {
@@ -31,6 +69,19 @@ export interface ApiResponse<T> {
   message: string;
 }
 
+/**
+ * Apply a suggestion to the text it was requested for, returning the new text
+ * and where the cursor should go
+ */
+export function applySuggestion(text: string, cursorPosition: number, suggestion: SuggestionItem) {
+  const { start, end } = suggestion.range ?? { start: cursorPosition, end: cursorPosition };
+
+  return {
+    text: text.substring(0, start) + suggestion.text + text.substring(end),
+    cursorPosition: start + suggestion.text.length
+  };
+}
+
 // Frontend utility class for autocompletion
 export class AutocompletionClient {
   private baseUrl: string;
@@ -102,7 +153,7 @@ export function useAutocompletion(baseUrl: string, authToken?: string) {
 // Example usage for frontend:
 /*
 // In your React component:
-import { useAutocompletion, SuggestionItem } from './types/autocompletion';
+import { useAutocompletion, applySuggestion, SuggestionItem } from './types/autocompletion';
 
 function MyTextEditor() {
   const { getSuggestions } = useAutocompletion('http://localhost:5000');
@@ -122,12 +173,11 @@ function MyTextEditor() {
     setSuggestions(newSuggestions);
   };
 
-  const applySuggestion = (suggestion: SuggestionItem) => {
-    const beforeCursor = text.substring(0, cursorPosition);
-    const afterCursor = text.substring(cursorPosition);
-    const newText = beforeCursor + suggestion.text + afterCursor;
-    setText(newText);
-    setCursorPosition(cursorPosition + suggestion.text.length);
+  const handleSuggestion = (suggestion: SuggestionItem) => {
+    // Replacements rewrite suggestion.range, insertions go in at the cursor
+    const applied = applySuggestion(text, cursorPosition, suggestion);
+    setText(applied.text);
+    setCursorPosition(applied.cursorPosition);
   };
 
   return (
@@ -143,7 +193,7 @@ function MyTextEditor() {
           {suggestions.map((suggestion) => (
             <button
               key={suggestion.id}
-              onClick={() => applySuggestion(suggestion)}
+              onClick={() => handleSuggestion(suggestion)}
               className="suggestion-item"
             >
               {suggestion.text}
@@ -0,0 +1,18 @@
+/**
+ * Key/value store for cached responses. Values are serialized strings so the
+ * in-memory and Redis-backed stores behave the same.
+ */
+export interface CacheStore {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * The subset of a Redis client the Redis store needs (ioredis signatures)
+ */
+export interface RedisLikeClient {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+    del(key: string): Promise<unknown>;
+}
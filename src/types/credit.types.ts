@@ -0,0 +1,34 @@
+export type CreditOperation =
+    | 'ai.generate-text'
+    | 'ai.humanize'
+    | 'ai.classify-intent'
+    | 'ai.transform'
+    | 'ai.proofread'
+    | 'autocompletion.suggestions'
+    | 'autocompletion.predict'
+    | 'templates.fill';
+
+export type CreditTransactionType = 'debit' | 'refund' | 'grant';
+
+export interface CreditCharge {
+    transactionId: number;
+    userId: number;
+    operation: CreditOperation;
+    cost: number;
+    balance: number;
+    refunded?: boolean;
+}
+
+export interface CreditUsage {
+    model?: string;
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+    providerCredits?: number;
+}
+
+export interface CreditBalanceResponse {
+    availableCredits: number;
+    plan: string;
+    costs: Record<CreditOperation, number>;
+}
@@ -0,0 +1,106 @@
+export type RevisionSource = 'create' | 'manual' | 'ai' | 'restore' | 'collaboration';
+
+export type DiffGranularity = 'line' | 'word';
+
+export interface DiffChange {
+    type: 'added' | 'removed' | 'unchanged';
+    value: string;
+}
+
+export interface RevisionDiffResponse {
+    documentId: number;
+    fromVersion: number;
+    toVersion: number;
+    granularity: DiffGranularity;
+    additions: number;
+    deletions: number;
+    changes: DiffChange[];
+}
+
+export type CollaboratorRole = 'viewer' | 'commenter' | 'editor';
+
+export type DocumentRole = CollaboratorRole | 'owner';
+
+export type DocumentState = 'active' | 'trashed';
+
+export interface InviteCollaboratorRequest {
+    email: string;
+    role: CollaboratorRole;
+}
+
+export interface CreateShareLinkRequest {
+    role?: CollaboratorRole;
+    expiresInDays?: number;
+}
+
+export interface DocumentSearchOptions {
+    query: string;
+    from?: Date;
+    to?: Date;
+    limit: number;
+    offset: number;
+}
+
+export interface DocumentSearchResult {
+    id: number;
+    title: string;
+    // Escaped HTML in which only the <mark> tags around matches are markup
+    titleHighlight: string;
+    snippet: string;
+    rank: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type DocumentSortKey = 'title' | 'createdAt' | 'updatedAt';
+
+export type DocumentListView = 'full' | 'summary';
+
+export interface DocumentListOptions {
+    sort: DocumentSortKey;
+    order: 'asc' | 'desc';
+    view: DocumentListView;
+    limit: number;
+    cursor?: string;
+}
+
+export interface DocumentSummary {
+    id: number;
+    title: string;
+    preview: string;
+    version: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface TrashedDocumentSummary {
+    id: number;
+    title: string;
+    preview: string;
+    folderId: number | null;
+    deletedAt: Date;
+    purgeAt: Date;
+}
+
+export type ExportFormat = 'md' | 'html' | 'docx' | 'pdf' | 'txt';
+
+export interface DocumentExport {
+    filename: string;
+    contentType: string;
+    body: Buffer;
+}
+
+export interface CreateDocumentInput {
+    title: string;
+    content?: string;
+    folderId?: number | string | null;
+    tags?: any;
+}
+
+export type ImportFormat = 'docx' | 'md' | 'html' | 'txt';
+
+export interface ImportedDocument {
+    title: string;
+    content: string;
+    format: ImportFormat;
+}
@@ -1,7 +1,24 @@
+export type ChatRole = 'user' | 'ai';
+
 export interface ChatHistoryEntry {
-    role: 'user' | 'ai';
-    message: string;
-    timestamp?: Date;
+    id: number;
+    documentId: number;
+    role: ChatRole;
+    content: string;
+    mode: string | null;
+    model: string | null;
+    promptTokens: number | null;
+    completionTokens: number | null;
+    createdAt: Date;
+}
+
+export interface ChatExchange {
+    prompt: string;
+    response: string;
+    mode?: string;
+    model?: string;
+    promptTokens?: number;
+    completionTokens?: number;
 }
 
 export interface DocumentChatRequest {
@@ -21,7 +38,7 @@ export interface DocumentChatResponse {
 export interface DocumentChatHistoryResponse {
     success: boolean;
     documentId: string;
-    chatHistory: string[];
+    chatHistory: ChatHistoryEntry[];
     chatHistoryLength: number;
     lastUpdated: Date;
 }
@@ -15,4 +15,7 @@ export interface IErrorContainer {
   METHOD_NOT_ALLOWED: IError;
   PRECONDITION_FAILED: IError;
   UNPROCESSABLE_ENTITY: IError;
+  PAYMENT_REQUIRED: IError;
+  PAYLOAD_TOO_LARGE: IError;
+  UNSUPPORTED_MEDIA_TYPE: IError;
 }
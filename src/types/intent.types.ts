@@ -0,0 +1,25 @@
+import { CreditUsage } from './credit.types';
+
+export type Intent = 'agent' | 'ask';
+
+export type IntentSource = 'llm' | 'keyword' | 'override';
+
+export interface IntentClassification {
+    intent: Intent;
+    // 0-1; overrides are always 1
+    confidence: number;
+    source: IntentSource;
+    model?: string;
+    // Why the keyword rules answered instead of the configured classifier
+    fallbackReason?: string;
+    // Model usage of the classification call, for billing
+    usage?: CreditUsage;
+}
+
+/**
+ * Decides whether a prompt asks for content to insert (agent) or for an answer (ask)
+ */
+export interface IntentClassifier {
+    readonly name: string;
+    classify(prompt: string, context?: string): Promise<IntentClassification>;
+}
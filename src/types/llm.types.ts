@@ -0,0 +1,147 @@
+export type LLMProviderName = 'gemini' | 'openai' | 'mock';
+
+/**
+ * What a model is used for; each role is mapped to a provider and model in config/llm.ts
+ */
+export type LLMRole = 'generation' | 'autocompletion' | 'prediction' | 'templates' | 'intent' | 'proofreading';
+
+export interface LLMModelSelection {
+    provider: LLMProviderName;
+    model: string;
+}
+
+/**
+ * The subset of JSON Schema used to describe structured model output. It maps
+ * onto both Gemini response schemas and OpenAI json_schema response formats.
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    nullable?: boolean;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    enum?: string[];
+    minimum?: number;
+    maximum?: number;
+}
+
+export interface LLMResponseFormat {
+    type: 'json';
+    // Short identifier, e.g. "autocompletion_suggestions"
+    name: string;
+    schema: JsonSchema;
+}
+
+export interface LLMGenerationOptions {
+    model?: string;
+    maxOutputTokens?: number;
+    temperature?: number;
+    // Ask for JSON output; providers apply the schema natively when the model supports it
+    responseFormat?: LLMResponseFormat;
+    // Aborts the request; the resilience layer uses it to enforce timeouts
+    signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+}
+
+/**
+ * Set when the requested model failed and the configured fallback model answered instead
+ */
+export interface LLMFallback {
+    requestedProvider: LLMProviderName;
+    requestedModel: string;
+    reason: string;
+}
+
+export interface LLMResult {
+    text: string;
+    provider: LLMProviderName;
+    model: string;
+    usage: LLMUsage;
+    fallback?: LLMFallback;
+}
+
+export interface LLMStreamChunk {
+    text: string;
+    // Usage is usually only reported with the final chunk
+    usage?: LLMUsage;
+}
+
+export type LLMChatRole = 'system' | 'user' | 'assistant';
+
+export interface LLMChatMessage {
+    role: LLMChatRole;
+    content: string;
+}
+
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    readonly defaultModel: string;
+    generate(prompt: string, options?: LLMGenerationOptions): Promise<LLMResult>;
+    // Resolves once the request is accepted, so connection errors surface before streaming starts
+    stream(prompt: string, options?: LLMGenerationOptions): Promise<AsyncIterable<LLMStreamChunk>>;
+    chat(messages: LLMChatMessage[], options?: LLMGenerationOptions): Promise<LLMResult>;
+    countTokens(text: string, model?: string): Promise<number>;
+}
+
+export interface LLMResilienceSettings {
+    timeoutMs: number;
+    maxRetries: number;
+    retryBaseDelayMs: number;
+    retryMaxDelayMs: number;
+    // Consecutive failures before a model's circuit opens, and how long it stays open
+    circuitFailureThreshold: number;
+    circuitCooldownMs: number;
+}
+
+export interface ModelCatalogEntry {
+    id: string;
+    provider: LLMProviderName;
+    displayName: string;
+    contextWindow: number;
+    // USD per token as published by the provider
+    inputCostPerToken: number;
+    outputCostPerToken: number;
+    plans: string[];
+}
+
+export interface ModelCatalogItem extends ModelCatalogEntry {
+    available: boolean;
+    isDefault: boolean;
+}
+
+export interface StructuredOutputSpec {
+    // Identifies the output in prompts and metrics
+    name: string;
+    schema: JsonSchema;
+    // Drop array entries that fail validation instead of rejecting the whole response
+    dropInvalidItems?: boolean;
+}
+
+export interface StructuredResult<T> {
+    data: T;
+    result: LLMResult;
+    // 1 when the first response was usable, 2 after a correction retry
+    attempts: number;
+    repaired: boolean;
+}
+
+export interface StructuredOutputStats {
+    name: string;
+    requests: number;
+    // Responses that could not be used as returned (before repair or retry)
+    parseFailures: number;
+    repaired: number;
+    retried: number;
+    // Requests that still had no usable output after the retry
+    failed: number;
+    parseFailureRate: number;
+    failureRate: number;
+}
@@ -0,0 +1,56 @@
+export type ProofreadingCategory = 'spelling' | 'grammar' | 'clarity' | 'passive-voice' | 'repetition';
+
+export type ProofreadingSource = 'rules' | 'llm';
+
+export interface ProofreadingIssue {
+    id: string;
+    // Local rule id, or llm:<category> for issues raised by the model review
+    ruleId: string;
+    category: ProofreadingCategory;
+    source: ProofreadingSource;
+    // Offsets in the document content
+    start: number;
+    end: number;
+    text: string;
+    message: string;
+    // Replacements for text, best first; may be empty
+    suggestions: string[];
+}
+
+/**
+ * A match found by a rule, with offsets in the text the rule was given
+ */
+export interface RuleMatch {
+    start: number;
+    end: number;
+    message: string;
+    suggestions: string[];
+}
+
+/**
+ * A deterministic check run locally on every analysis
+ */
+export interface ProofreadingRule {
+    id: string;
+    category: ProofreadingCategory;
+    description: string;
+    check(text: string): RuleMatch[];
+}
+
+export type ProofreadingReviewStatus = 'completed' | 'skipped' | 'failed';
+
+export interface ProofreadingReview {
+    status: ProofreadingReviewStatus;
+    model?: string;
+    // Only the start of long ranges is reviewed by the model
+    truncated?: boolean;
+    reason?: string;
+}
+
+export interface ProofreadingResponse {
+    documentId: number;
+    range: { start: number; end: number };
+    issues: ProofreadingIssue[];
+    dismissedRules: string[];
+    review: ProofreadingReview;
+}
@@ -0,0 +1,23 @@
+import { CreditUsage } from './credit.types';
+
+export type TemplateScope = 'system' | 'personal';
+
+export interface TemplateInput {
+    name?: string;
+    description?: string | null;
+    category?: string | null;
+    content?: string;
+}
+
+export interface CreateFromTemplateRequest {
+    title?: string;
+    values?: Record<string, string>;
+    folderId?: number | string | null;
+    tags?: string[];
+}
+
+export interface TemplateFillResult {
+    values: Record<string, string>;
+    missingVariables: string[];
+    usage?: CreditUsage;
+}
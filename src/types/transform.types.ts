@@ -0,0 +1,48 @@
+import { DiffChange, DiffGranularity } from './document.types';
+import { LLMFallback } from './llm.types';
+
+export type TransformOperation =
+    | 'rephrase'
+    | 'shorten'
+    | 'expand'
+    | 'fix-grammar'
+    | 'change-tone'
+    | 'simplify'
+    | 'translate'
+    | 'continue';
+
+export type TransformTone = 'formal' | 'casual' | 'persuasive';
+
+export interface TransformOptions {
+    // Required for change-tone
+    tone?: TransformTone;
+    // Required for translate
+    language?: string;
+}
+
+export interface TransformInput extends TransformOptions {
+    operation: TransformOperation;
+    selectedText: string;
+    // Text around the selection, for tone and continuity
+    before: string;
+    after: string;
+}
+
+export interface TransformResponse {
+    documentId: number;
+    operation: TransformOperation;
+    // Offsets in the document content the replacement applies to
+    range: { start: number; end: number };
+    original: string;
+    replacement: string;
+    diff: {
+        granularity: DiffGranularity;
+        additions: number;
+        deletions: number;
+        changes: DiffChange[];
+    };
+    model: string;
+    provider: string;
+    fallback: LLMFallback | null;
+    chatHistoryLength: number;
+}
@@ -0,0 +1,34 @@
+/**
+ * Strip the chatter models wrap around text meant for the document
+ * ("Here is...", "Hope this helps!") so it can be inserted as is
+ */
+export function cleanAgentResponse(text: string): string {
+  const prefixesToRemove = [
+    /^(Here is|Here's|Here are)\s+/i,
+    /^(The answer is|The response is|The text is)\s*:?\s*/i,
+    /^(I'll|I will|Let me)\s+.*?:\s*/i,
+    /^(Based on|According to).*?,\s*/i,
+    /^(Sure|Certainly|Of course)[,!.]\s*/i,
+    /^(Here you go|There you go)[,!.]\s*/i,
+    /^(As requested)[,!.]\s*/i
+  ];
+
+  let cleanText = text.trim();
+
+  for (const prefix of prefixesToRemove) {
+    cleanText = cleanText.replace(prefix, '');
+  }
+
+  const suffixesToRemove = [
+    /\s+(Hope this helps!?|Let me know if you need.*|Feel free to.*|Is there anything else.*)\s*$/i,
+    /\s+(I hope this is what you were looking for.*|Does this meet your needs.*)\s*$/i
+  ];
+
+  for (const suffix of suffixesToRemove) {
+    cleanText = cleanText.replace(suffix, '');
+  }
+
+  cleanText = cleanText.replace(/\n\n\n+/g, '\n\n');
+
+  return cleanText.trim();
+}
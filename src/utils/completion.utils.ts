@@ -0,0 +1,149 @@
+import { SuggestionItem, SuggestionRange } from '../types/autocompletion.types';
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+// How far into the suffix a suggestion is checked for repeating it
+const SUFFIX_WINDOW = 200;
+const MIN_REPEAT_LENGTH = 12;
+
+function isWordChar(char: string | undefined) {
+  return char !== undefined && WORD_CHAR.test(char);
+}
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Drop words at the start of a suggestion that repeat the end of the prefix
+ * ("the meeting" after "...attend the"). Only whole words are stripped, so
+ * completing a partial word is left alone.
+ */
+export function trimPrefixOverlap(suggestion: string, prefix: string): string {
+  const lowerSuggestion = suggestion.trimStart().toLowerCase();
+  const lowerPrefix = prefix.toLowerCase();
+
+  for (let length = Math.min(lowerSuggestion.length, lowerPrefix.length); length >= 2; length--) {
+    const overlap = lowerSuggestion.substring(0, length);
+    const start = lowerPrefix.length - length;
+
+    if (lowerPrefix.endsWith(overlap) && !isWordChar(lowerSuggestion[length]) && !isWordChar(lowerPrefix[start - 1])) {
+      return suggestion.trimStart().substring(length);
+    }
+  }
+
+  return suggestion;
+}
+
+/**
+ * Drop words at the end of a suggestion that the suffix already starts with
+ * ("attend the meeting" before " the meeting.")
+ */
+export function trimSuffixOverlap(suggestion: string, suffix: string): string {
+  const lowerSuggestion = suggestion.trimEnd().toLowerCase();
+  const lowerSuffix = suffix.trimStart().toLowerCase();
+
+  for (let length = Math.min(lowerSuggestion.length, lowerSuffix.length); length >= 2; length--) {
+    const overlap = lowerSuffix.substring(0, length);
+    const start = lowerSuggestion.length - length;
+
+    if (lowerSuggestion.endsWith(overlap) && !isWordChar(lowerSuffix[length]) && !isWordChar(lowerSuggestion[start - 1])) {
+      return suggestion.trimEnd().substring(0, start).trimEnd();
+    }
+  }
+
+  return suggestion;
+}
+
+/**
+ * Whether a suggestion says again what the next sentence or so already says
+ */
+export function repeatsSuffix(suggestion: string, suffix: string): boolean {
+  const normalized = normalize(suggestion);
+  return normalized.length >= MIN_REPEAT_LENGTH && normalize(suffix.substring(0, SUFFIX_WINDOW)).includes(normalized);
+}
+
+/**
+ * Fix the whitespace where a suggestion meets the surrounding text: no double
+ * spaces, and a space between words that would otherwise run together.
+ * Completions may finish the word under the cursor, so they are not spaced.
+ */
+export function joinToSurroundings(suggestion: string, before: string, after: string, type: SuggestionItem['type']): string {
+  let joined = suggestion;
+
+  if (before.length === 0 || /\s$/.test(before)) {
+    joined = joined.trimStart();
+  } else if (type !== 'completion' && isWordChar(before[before.length - 1]) && isWordChar(joined[0])) {
+    joined = ' ' + joined;
+  }
+
+  if (after.length === 0 || /^\s/.test(after)) {
+    joined = joined.trimEnd();
+  } else if (isWordChar(joined[joined.length - 1]) && isWordChar(after[0])) {
+    joined += ' ';
+  }
+
+  return joined;
+}
+
+/**
+ * Offsets of the text a replacement rewrites. It has to touch the cursor:
+ * end at it, start at it, or span it. The closest match ending at the cursor wins.
+ */
+export function locateReplacement(text: string, cursorPosition: number, original: string): SuggestionRange | null {
+  if (!original) {
+    return null;
+  }
+
+  for (const caseSensitive of [true, false]) {
+    const source = caseSensitive ? text : text.toLowerCase();
+    const target = caseSensitive ? original : original.toLowerCase();
+
+    for (let start = Math.max(0, cursorPosition - target.length); start <= cursorPosition; start++) {
+      if (source.startsWith(target, start)) {
+        return { start, end: start + target.length };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Make suggestions safe to apply at the cursor. Insertions are trimmed where
+ * they overlap the text on either side and dropped when they only repeat the
+ * suffix; replacements are anchored to the text they rewrite. Every suggestion
+ * that survives carries the range the editor should replace.
+ */
+export function fitSuggestionsToCursor(suggestions: SuggestionItem[], text: string, cursorPosition: number): SuggestionItem[] {
+  return suggestions.flatMap((suggestion) => {
+    if (suggestion.type === 'replacement') {
+      const range = suggestion.original ? locateReplacement(text, cursorPosition, suggestion.original) : null;
+
+      if (!range) {
+        return [];
+      }
+
+      const replacement = joinToSurroundings(suggestion.text, text.substring(0, range.start), text.substring(range.end), suggestion.type);
+
+      if (!replacement.trim() || replacement === text.substring(range.start, range.end)) {
+        return [];
+      }
+
+      return [{ ...suggestion, text: replacement, range }];
+    }
+
+    const before = text.substring(0, cursorPosition);
+    const after = text.substring(cursorPosition);
+    const insertion = trimSuffixOverlap(trimPrefixOverlap(suggestion.text, before), after);
+
+    if (!insertion.trim() || repeatsSuffix(insertion, after)) {
+      return [];
+    }
+
+    return [{
+      ...suggestion,
+      text: joinToSurroundings(insertion, before, after, suggestion.type),
+      range: { start: cursorPosition, end: cursorPosition }
+    }];
+  });
+}
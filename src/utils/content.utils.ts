@@ -0,0 +1,355 @@
+import { HTMLElement, Node, NodeType, parse } from 'node-html-parser';
+import sanitizeHtml from 'sanitize-html';
+
+export interface ContentRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+export interface ContentBlock {
+  type: 'heading' | 'paragraph' | 'list-item' | 'quote' | 'code';
+  runs: ContentRun[];
+  level?: number;
+  // List items only: which list they belong to, nesting depth and position
+  listId?: number;
+  ordered?: boolean;
+  depth?: number;
+  index?: number;
+}
+
+type RunStyle = Omit<ContentRun, 'text'>;
+
+interface ListContext {
+  id: number;
+  ordered: boolean;
+  depth: number;
+  count: number;
+}
+
+const INLINE_STYLES: Record<string, RunStyle> = {
+  strong: { bold: true },
+  b: { bold: true },
+  em: { italic: true },
+  i: { italic: true },
+  u: { underline: true },
+  s: { strike: true },
+  strike: { strike: true },
+  del: { strike: true },
+  code: { code: true },
+};
+
+// Only markup the editor understands is kept; scripts, styles and event handlers are dropped
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: sanitizeHtml.defaults.allowedTags.concat(['del', 'strike']),
+  allowedAttributes: {
+    a: ['href', 'title'],
+    ol: ['start'],
+    td: ['colspan', 'rowspan'],
+    th: ['colspan', 'rowspan'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  nonTextTags: ['script', 'style', 'textarea', 'option', 'noscript', 'title', 'head'],
+};
+
+export function isHtmlContent(content: string): boolean {
+  return /<[a-z][^>]*>/i.test(content);
+}
+
+/**
+ * HTML from outside the editor (imports, model output) reduced to safe editor markup
+ */
+export function sanitizeContentHtml(html: string): string {
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+}
+
+/**
+ * Whether an offset falls inside a tag or a character reference of HTML
+ * content, where cutting the content would break its markup
+ */
+export function splitsHtmlMarkup(content: string, offset: number): boolean {
+  if (!isHtmlContent(content)) {
+    return false;
+  }
+
+  for (const match of content.matchAll(/<[^>]*>|&(?:#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi)) {
+    if (match.index! >= offset) {
+      return false;
+    }
+    if (offset < match.index! + match[0].length) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/**
+ * Whether every element opened in a fragment of HTML content is closed in it
+ * and the other way round, so that replacing the fragment leaves the
+ * surrounding markup intact
+ */
+export function isBalancedHtmlFragment(fragment: string): boolean {
+  const open: string[] = [];
+
+  for (const [, closing, name, selfClosing] of fragment.matchAll(/<(\/?)([a-z][a-z0-9]*)\b[^>]*?(\/?)>/gi)) {
+    const tag = name.toLowerCase();
+
+    if (VOID_TAGS.has(tag) || selfClosing) {
+      continue;
+    }
+    if (!closing) {
+      open.push(tag);
+    } else if (open.pop() !== tag) {
+      return false;
+    }
+  }
+
+  return open.length === 0;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Plain text as HTML paragraphs, blank lines separating paragraphs
+ */
+export function textToHtml(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .filter((paragraph) => paragraph.trim().length > 0)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+/**
+ * Editor content as HTML; plain-text content is wrapped in paragraphs
+ */
+export function toHtmlContent(content: string): string {
+  return isHtmlContent(content) ? content : textToHtml(content);
+}
+
+/**
+ * Flatten editor HTML into a list of blocks with styled text runs, a shape
+ * that the DOCX, PDF and text renderers can lay out without an HTML engine
+ */
+export function parseContentBlocks(content: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let current: ContentBlock | null = null;
+  let nextListId = 1;
+
+  const flush = () => {
+    if (current && current.runs.some((run) => run.text.trim().length > 0)) {
+      const runs = current.runs;
+      runs[0].text = runs[0].text.trimStart();
+      runs[runs.length - 1].text = runs[runs.length - 1].text.trimEnd();
+      blocks.push(current);
+    }
+    current = null;
+  };
+
+  const startBlock = (block: Omit<ContentBlock, 'runs'>) => {
+    flush();
+    current = { ...block, runs: [] };
+  };
+
+  const addText = (text: string, style: RunStyle, quote: boolean) => {
+    if (!current) {
+      if (text.trim().length === 0) {
+        return;
+      }
+      current = { type: quote ? 'quote' : 'paragraph', runs: [] };
+    }
+
+    const block: ContentBlock = current;
+    const previous = block.runs[block.runs.length - 1];
+
+    // Collapse whitespace across run boundaries the way a browser would
+    if (text.startsWith(' ') && (!previous || /[\s]$/.test(previous.text))) {
+      text = text.trimStart();
+    }
+    if (text.length > 0) {
+      block.runs.push({ text, ...style });
+    }
+  };
+
+  const walk = (node: Node, style: RunStyle, list: ListContext | null, quote: boolean, inListItem: boolean) => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      addText(node.text.replace(/\s+/g, ' '), style, quote);
+      return;
+    }
+
+    if (node.nodeType !== NodeType.ELEMENT_NODE) {
+      return;
+    }
+
+    const element = node as HTMLElement;
+    const tag = (element.tagName || '').toLowerCase();
+    const walkChildren = (
+      childStyle: RunStyle = style,
+      childList: ListContext | null = list,
+      childQuote: boolean = quote,
+      childInListItem: boolean = inListItem
+    ) => element.childNodes.forEach((child) => walk(child, childStyle, childList, childQuote, childInListItem));
+
+    if (/^h[1-6]$/.test(tag)) {
+      startBlock({ type: 'heading', level: parseInt(tag[1]) });
+      walkChildren();
+      flush();
+      return;
+    }
+
+    switch (tag) {
+      case 'br':
+        addText('\n', style, quote);
+        return;
+
+      case 'p':
+      case 'div':
+        // Paragraphs inside a list item stay part of that item
+        if (inListItem) {
+          addText(' ', style, quote);
+          walkChildren();
+          return;
+        }
+        startBlock({ type: quote ? 'quote' : 'paragraph' });
+        walkChildren();
+        flush();
+        return;
+
+      case 'ul':
+      case 'ol':
+        flush();
+        walkChildren(style, {
+          id: nextListId++,
+          ordered: tag === 'ol',
+          depth: list ? list.depth + 1 : 0,
+          count: 0
+        }, quote, false);
+        flush();
+        return;
+
+      case 'li': {
+        const context = list || { id: nextListId++, ordered: false, depth: 0, count: 0 };
+        context.count++;
+        startBlock({
+          type: 'list-item',
+          listId: context.id,
+          ordered: context.ordered,
+          depth: context.depth,
+          index: context.count
+        });
+        walkChildren(style, context, quote, true);
+        flush();
+        return;
+      }
+
+      case 'blockquote':
+        flush();
+        walkChildren(style, list, true, false);
+        flush();
+        return;
+
+      case 'pre':
+        flush();
+        blocks.push({ type: 'code', runs: [{ text: element.text.replace(/\n$/, ''), code: true }] });
+        return;
+
+      case 'hr':
+        flush();
+        return;
+
+      case 'script':
+      case 'style':
+        return;
+
+      case 'a': {
+        const href = element.getAttribute('href');
+        walkChildren(href ? { ...style, link: href } : style);
+        return;
+      }
+
+      default:
+        walkChildren(INLINE_STYLES[tag] ? { ...style, ...INLINE_STYLES[tag] } : style);
+    }
+  };
+
+  // <pre> is parsed as markup (not raw text) so code blocks keep only their text
+  const root = parse(toHtmlContent(content), { blockTextElements: { script: true, style: true } });
+  walk(root, {}, null, false, false);
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Plain-text rendering of content blocks, one blank line between blocks
+ */
+export function blocksToText(blocks: ContentBlock[]): string {
+  return blocks
+    .map((block, index) => {
+      const text = block.runs.map((run) => run.text).join('');
+      // Items of the same list are kept on consecutive lines
+      const separator = index === 0 ? '' : block.type === 'list-item' && blocks[index - 1].type === 'list-item' ? '\n' : '\n\n';
+
+      switch (block.type) {
+        case 'list-item':
+          return `${separator}${'  '.repeat(block.depth || 0)}${block.ordered ? `${block.index}.` : '-'} ${text}`;
+        case 'quote':
+          return separator + text.split('\n').map((line) => `> ${line}`).join('\n');
+        default:
+          return separator + text;
+      }
+    })
+    .join('');
+}
+
+const BLOCK_TAG = /^<\/?(p|div|h[1-6]|li|ul|ol|blockquote|pre|br|hr|tr|td|th|table)\b/i;
+const MASKED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", apos: "'", nbsp: ' ' };
+
+/**
+ * The text of content with every offset unchanged, for checks that report
+ * positions in the stored content. Tags are blanked out (block tags start
+ * with a newline so paragraphs stay separate), entities become the character
+ * they stand for followed by spaces, and code is blanked out entirely.
+ */
+export function maskHtmlPreservingOffsets(content: string): string {
+  if (!isHtmlContent(content)) {
+    return content;
+  }
+
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+  return content
+    .replace(/<(pre|code|script|style)\b[\s\S]*?<\/\1>/gi, (match) => '\n' + blank(match.substring(1)))
+    .replace(/<[^>]*>/g, (tag) => (BLOCK_TAG.test(tag) ? '\n' : ' ') + blank(tag.substring(1)))
+    .replace(/&([a-z]+|#\d+);/gi, (entity, name: string) => (MASKED_ENTITIES[name.toLowerCase()] || ' ') + blank(entity.substring(1)));
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Decode the character references HTML content is stored with (&amp;, &#39;...)
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
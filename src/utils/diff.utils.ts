@@ -0,0 +1,28 @@
+import { diffLines, diffWordsWithSpace } from 'diff';
+import { DiffChange, DiffGranularity } from '../types/document.types';
+
+/**
+ * Diff two texts at line or word granularity
+ */
+export function diffText(oldText: string, newText: string, granularity: DiffGranularity = 'line') {
+  const rawChanges = granularity === 'word'
+    ? diffWordsWithSpace(oldText, newText)
+    : diffLines(oldText, newText);
+
+  let additions = 0;
+  let deletions = 0;
+
+  const changes: DiffChange[] = rawChanges.map((change) => {
+    if (change.added) {
+      additions += change.count || 0;
+      return { type: 'added', value: change.value };
+    }
+    if (change.removed) {
+      deletions += change.count || 0;
+      return { type: 'removed', value: change.value };
+    }
+    return { type: 'unchanged', value: change.value };
+  });
+
+  return { changes, additions, deletions };
+}
@@ -0,0 +1,20 @@
+/**
+ * Build the ETag for a given document version
+ */
+export function versionETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Read the expected version from an If-Match header
+ * Returns undefined when the header is absent or is the "*" wildcard,
+ * and NaN when it does not hold a version ETag.
+ */
+export function parseIfMatch(header: string | undefined): number | undefined {
+  if (!header || header.trim() === '*') {
+    return undefined;
+  }
+
+  const match = header.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? parseInt(match[1]) : NaN;
+}
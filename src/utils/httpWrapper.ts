@@ -39,6 +39,7 @@ export const catchAsync =
           message: err.message,
           type: err.type,
           errno: err.errno,
+          ...(err.details && { data: err.details }),
         });
       } else {
         return res.status(500).json({
@@ -104,4 +105,16 @@ export const error_codes: IErrorContainer = {
     type: "Unprocessable Entity",
     status_code: 422,
   },
+  PAYMENT_REQUIRED: {
+    type: "Payment Required",
+    status_code: 402,
+  },
+  PAYLOAD_TOO_LARGE: {
+    type: "Payload Too Large",
+    status_code: 413,
+  },
+  UNSUPPORTED_MEDIA_TYPE: {
+    type: "Unsupported Media Type",
+    status_code: 415,
+  },
 };
@@ -0,0 +1,270 @@
+import { JsonSchema } from '../types/llm.types';
+
+const STRING_LITERAL = /"(?:[^"\\]|\\.)*"/g;
+
+/**
+ * Walk JSON-ish text outside of string literals, calling `visit` for every
+ * structural character along with the nesting stack at that point
+ */
+function scanStructure(text: string, visit: (char: string, index: number, stack: string[]) => void) {
+  const stack: string[] = [];
+  let inString = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inString) {
+      if (char === '\\') {
+        index++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+    }
+
+    visit(char, index, stack);
+  }
+
+  return { stack, inString };
+}
+
+/**
+ * The JSON value in a model response, without code fences or the chatter
+ * around it. Consecutive top-level objects ({...} {...}) are returned as an array.
+ */
+export function extractJsonCandidate(text: string): string | null {
+  const cleaned = text.replace(/```(?:json)?/gi, '');
+  const start = cleaned.search(/[[{]/);
+
+  if (start === -1) {
+    return null;
+  }
+
+  const body = cleaned.substring(start);
+  let end = -1;
+  let lastObjectEnd = -1;
+  let topLevelObjects = 0;
+
+  scanStructure(body, (char, index, stack) => {
+    if ((char === '}' || char === ']') && stack.length === 0) {
+      if (end === -1) {
+        end = index;
+      }
+      if (char === '}') {
+        lastObjectEnd = index;
+        topLevelObjects++;
+      }
+    }
+  });
+
+  if (end === -1) {
+    // Truncated response, repairJson may still be able to close it
+    return body.trim();
+  }
+
+  if (body[0] === '{' && topLevelObjects > 1 && /^\s*,?\s*\{/.test(body.substring(end + 1))) {
+    return `[${body.substring(0, lastObjectEnd + 1)}]`;
+  }
+
+  return body.substring(0, end + 1);
+}
+
+function mapOutsideStrings(text: string, transform: (segment: string) => string): string {
+  let result = '';
+  let last = 0;
+
+  for (const match of text.matchAll(STRING_LITERAL)) {
+    result += transform(text.substring(last, match.index)) + match[0];
+    last = match.index! + match[0].length;
+  }
+
+  return result + transform(text.substring(last));
+}
+
+/**
+ * Fix the malformations models commonly produce: smart quotes, comments,
+ * single-quoted strings, unquoted keys, Python literals, missing commas
+ * between objects, trailing commas and output cut off before the closing brackets
+ */
+export function repairJson(text: string): string {
+  let repaired = text
+    .replace(/[“”„]/g, '"')
+    .replace(/[‘’]/g, "'");
+
+  // Single-quoted strings first, so comment markers inside them ('http://...') are left alone
+  repaired = mapOutsideStrings(repaired, (segment) => segment
+    .replace(/'((?:[^'\\\n]|\\.)*)'/g, (_, inner: string) => JSON.stringify(inner.replace(/\\'/g, "'")))
+  );
+
+  repaired = mapOutsideStrings(repaired, (segment) => segment
+    .replace(/\/\/[^\n]*/g, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+  );
+
+  repaired = mapOutsideStrings(repaired, (segment) => segment
+    .replace(/\bTrue\b/g, 'true')
+    .replace(/\bFalse\b/g, 'false')
+    .replace(/\bNone\b/g, 'null')
+    .replace(/([{,]\s*)([A-Za-z_][\w-]*)(\s*:)/g, '$1"$2"$3')
+    .replace(/}(\s*){/g, '},$1{')
+    .replace(/,(\s*[}\]])/g, '$1')
+  );
+
+  const { stack, inString } = scanStructure(repaired, () => {});
+
+  if (stack.length > 0 || inString) {
+    // Cut back to the last complete value and close what is still open
+    let lastClose = -1;
+    scanStructure(repaired, (char, index) => {
+      if (char === '}' || char === ']') {
+        lastClose = index;
+      }
+    });
+
+    if (lastClose !== -1) {
+      repaired = repaired.substring(0, lastClose + 1);
+    } else if (inString) {
+      repaired += '"';
+    }
+
+    const { stack: open } = scanStructure(repaired, () => {});
+    repaired = repaired.replace(/,\s*$/, '') + open.reverse().join('');
+  }
+
+  return repaired;
+}
+
+export interface JsonValidationOptions {
+  // Drop array entries that fail validation instead of failing the array
+  dropInvalidItems?: boolean;
+}
+
+/**
+ * Check a parsed value against a schema, coercing what can safely be coerced
+ * (numeric strings, out-of-range numbers, enum casing, an array where an
+ * object wrapping a single array was expected). Returns the coerced value
+ * and any errors that remain, with JSON paths.
+ */
+export function validateJson(
+  value: any,
+  schema: JsonSchema,
+  options: JsonValidationOptions = {},
+  path = '$'
+): { value: any; errors: string[] } {
+  if (value === null || value === undefined) {
+    return schema.nullable ? { value: null, errors: [] } : { value, errors: [`${path} is required`] };
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const properties = schema.properties || {};
+      const required = schema.required || [];
+
+      // A bare array answering a schema like { suggestions: [...] }
+      if (Array.isArray(value) && required.length === 1 && properties[required[0]]?.type === 'array') {
+        value = { [required[0]]: value };
+      }
+
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return { value, errors: [`${path} must be an object`] };
+      }
+
+      const result: Record<string, any> = { ...value };
+      const errors: string[] = [];
+
+      for (const [key, propertySchema] of Object.entries(properties)) {
+        if (value[key] === undefined) {
+          if (required.includes(key)) {
+            errors.push(`${path}.${key} is required`);
+          }
+          continue;
+        }
+
+        const checked = validateJson(value[key], propertySchema, options, `${path}.${key}`);
+        result[key] = checked.value;
+        errors.push(...checked.errors);
+      }
+
+      return { value: result, errors };
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return { value, errors: [`${path} must be an array`] };
+      }
+
+      const items: any[] = [];
+      const errors: string[] = [];
+
+      value.forEach((item, index) => {
+        const checked = schema.items ? validateJson(item, schema.items, options, `${path}[${index}]`) : { value: item, errors: [] };
+
+        if (checked.errors.length === 0) {
+          items.push(checked.value);
+        } else if (!options.dropInvalidItems) {
+          errors.push(...checked.errors);
+        }
+      });
+
+      if (schema.minItems !== undefined && items.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} valid item(s)`);
+      }
+
+      return { value: schema.maxItems !== undefined ? items.slice(0, schema.maxItems) : items, errors };
+    }
+
+    case 'string': {
+      const text = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+
+      if (typeof text !== 'string') {
+        return { value, errors: [`${path} must be a string`] };
+      }
+
+      if (schema.enum) {
+        const match = schema.enum.find((option) => option.toLowerCase() === text.trim().toLowerCase());
+        return match
+          ? { value: match, errors: [] }
+          : { value: text, errors: [`${path} must be one of: ${schema.enum.join(', ')}`] };
+      }
+
+      return { value: text, errors: [] };
+    }
+
+    case 'number':
+    case 'integer': {
+      let number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        return { value, errors: [`${path} must be a number`] };
+      }
+
+      if (schema.type === 'integer') {
+        number = Math.round(number);
+      }
+      if (schema.minimum !== undefined) {
+        number = Math.max(schema.minimum, number);
+      }
+      if (schema.maximum !== undefined) {
+        number = Math.min(schema.maximum, number);
+      }
+
+      return { value: number, errors: [] };
+    }
+
+    case 'boolean': {
+      if (value === 'true' || value === 'false') {
+        return { value: value === 'true', errors: [] };
+      }
+
+      return typeof value === 'boolean' ? { value, errors: [] } : { value, errors: [`${path} must be a boolean`] };
+    }
+  }
+}
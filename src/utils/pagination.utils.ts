@@ -0,0 +1,28 @@
+export interface CursorPayload {
+  value: string | number;
+  id: number;
+}
+
+/**
+ * Encode the sort value and id of the last row of a page as an opaque cursor
+ */
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor, or null if it is malformed
+ */
+export function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (!payload || !Number.isInteger(payload.id) || !['string', 'number'].includes(typeof payload.value)) {
+      return null;
+    }
+
+    return payload;
+  } catch (error) {
+    return null;
+  }
+}
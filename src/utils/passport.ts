@@ -1,6 +1,7 @@
 import passport from "passport";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { PrismaClient } from "@prisma/client";
+import { getStartingCredits } from "../config/credits";
 
 const prisma = new PrismaClient();
 
@@ -28,6 +29,7 @@ passport.use(
               lastName,
               password: "", 
               plan: "free",
+              availableCredits: getStartingCredits("free"),
             },
           });
         }
@@ -0,0 +1,15 @@
+import { error_codes, throwError } from './httpWrapper';
+
+/**
+ * A character offset from a request body. Without a `fallback` the offset is
+ * required; with one, a missing offset takes the fallback's value.
+ */
+export function parseOffset(value: any, name: string, fallback?: number): number {
+  if ((value === undefined || value === null) && fallback !== undefined) {
+    return fallback;
+  }
+  if (!Number.isInteger(value) || value < 0) {
+    throw throwError(`${name} must be a non-negative integer`, error_codes.BAD_REQUEST);
+  }
+  return value;
+}
@@ -0,0 +1,40 @@
+import { Response } from "express";
+
+/**
+ * Prepare a response for Server-Sent Events
+ */
+export function openSseStream(res: Response) {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+}
+
+/**
+ * Write a single named SSE event with a JSON payload
+ */
+export function writeSseEvent(res: Response, event: string, data: any) {
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+
+  // compression() buffers the body unless it is flushed explicitly
+  const flushable = res as Response & { flush?: () => void };
+  if (typeof flushable.flush === "function") {
+    flushable.flush();
+  }
+}
+
+/**
+ * Call `onDisconnect` when the client goes away before the response is finished.
+ * The request's own "close" event cannot be used: it fires as soon as the body
+ * has been read, not when the connection drops.
+ */
+export function onClientDisconnect(res: Response, onDisconnect: () => void) {
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      onDisconnect();
+    }
+  });
+}
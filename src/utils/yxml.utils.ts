@@ -0,0 +1,284 @@
+import * as Y from 'yjs';
+import { HTMLElement, Node, NodeType, parse } from 'node-html-parser';
+import { escapeHtml, toHtmlContent } from './content.utils';
+
+/**
+ * Conversion between stored HTML and the Y.XmlFragment a ProseMirror/Tiptap
+ * editor binds to through y-prosemirror. Nodes use the editor's node names
+ * (paragraph, heading, bulletList...) and marks are text formatting
+ * attributes whose value is the mark's attributes ({ bold: {} }).
+ */
+
+type MarkSet = Record<string, Record<string, string>>;
+
+type InlineSegment =
+  | { kind: 'text'; text: string; marks: MarkSet }
+  | { kind: 'node'; name: string; attrs: Record<string, any> };
+
+const BLOCK_TAGS: Record<string, string> = {
+  p: 'paragraph',
+  blockquote: 'blockquote',
+  ul: 'bulletList',
+  ol: 'orderedList',
+  li: 'listItem',
+  pre: 'codeBlock',
+  hr: 'horizontalRule'
+};
+
+const MARK_TAGS: Record<string, string> = {
+  strong: 'bold',
+  b: 'bold',
+  em: 'italic',
+  i: 'italic',
+  u: 'underline',
+  s: 'strike',
+  strike: 'strike',
+  del: 'strike',
+  code: 'code'
+};
+
+// Outermost first, so serialisation is stable
+const MARK_ORDER = ['link', 'bold', 'italic', 'underline', 'strike', 'code'];
+const MARK_HTML: Record<string, string> = { bold: 'strong', italic: 'em', underline: 'u', strike: 's', code: 'code' };
+
+function tagOf(node: Node) {
+  return node.nodeType === NodeType.ELEMENT_NODE ? ((node as HTMLElement).tagName || '').toLowerCase() : '';
+}
+
+function isBlockNode(node: Node) {
+  const tag = tagOf(node);
+  return Boolean(BLOCK_TAGS[tag]) || /^h[1-6]$/.test(tag) || tag === 'div';
+}
+
+function appendElement(parent: Y.XmlFragment, name: string, attrs: Record<string, any> = {}) {
+  const element = new Y.XmlElement<Record<string, any>>(name);
+  parent.insert(parent.length, [element]);
+  Object.entries(attrs).forEach(([key, value]) => element.setAttribute(key, value));
+  return element;
+}
+
+function collectInline(node: Node, marks: MarkSet, segments: InlineSegment[]) {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    segments.push({ kind: 'text', text: node.text.replace(/\s+/g, ' '), marks });
+    return;
+  }
+
+  const tag = tagOf(node);
+  const element = node as HTMLElement;
+
+  if (!tag) {
+    return;
+  }
+
+  if (tag === 'br') {
+    segments.push({ kind: 'node', name: 'hardBreak', attrs: {} });
+    return;
+  }
+
+  if (tag === 'img') {
+    const attrs: Record<string, string> = {};
+    ['src', 'alt', 'title'].forEach((key) => {
+      const value = element.getAttribute(key);
+      if (value) {
+        attrs[key] = value;
+      }
+    });
+    segments.push({ kind: 'node', name: 'image', attrs });
+    return;
+  }
+
+  if (tag === 'script' || tag === 'style') {
+    return;
+  }
+
+  let childMarks = marks;
+  if (MARK_TAGS[tag]) {
+    childMarks = { ...marks, [MARK_TAGS[tag]]: {} };
+  } else if (tag === 'a' && element.getAttribute('href')) {
+    childMarks = { ...marks, link: { href: element.getAttribute('href')! } };
+  }
+
+  element.childNodes.forEach((child) => collectInline(child, childMarks, segments));
+}
+
+/**
+ * Write inline content into a textblock, collapsing whitespace the way a browser would
+ */
+function writeInline(parent: Y.XmlElement, segments: InlineSegment[]) {
+  let text: Y.XmlText | null = null;
+  let previousEndsWithSpace = true;
+
+  segments.forEach((segment, index) => {
+    if (segment.kind === 'node') {
+      appendElement(parent, segment.name, segment.attrs);
+      text = null;
+      previousEndsWithSpace = true;
+      return;
+    }
+
+    let value = segment.text;
+    if (previousEndsWithSpace) {
+      value = value.trimStart();
+    }
+    if (segments.slice(index + 1).every((next) => next.kind === 'text' && next.text.trim() === '')) {
+      value = value.trimEnd();
+    }
+    if (!value) {
+      return;
+    }
+
+    if (!text) {
+      text = new Y.XmlText();
+      parent.insert(parent.length, [text]);
+    }
+    // Marks are given explicitly, otherwise Yjs would extend the marks of the preceding text
+    const attributes = Object.fromEntries(MARK_ORDER.map((mark) => [mark, segment.marks[mark] || null]));
+    text.insert(text.length, value, attributes);
+    previousEndsWithSpace = value.endsWith(' ');
+  });
+}
+
+/**
+ * Write block content; loose inline content is wrapped in a paragraph, since
+ * the document, blockquotes and list items may only hold blocks
+ */
+function writeBlocks(parent: Y.XmlFragment, nodes: Node[]) {
+  let pending: Node[] = [];
+
+  const flushParagraph = () => {
+    const segments: InlineSegment[] = [];
+    pending.forEach((node) => collectInline(node, {}, segments));
+    pending = [];
+
+    if (segments.some((segment) => segment.kind === 'node' || segment.text.trim() !== '')) {
+      writeInline(appendElement(parent, 'paragraph'), segments);
+    }
+  };
+
+  nodes.forEach((node) => {
+    if (!isBlockNode(node)) {
+      pending.push(node);
+      return;
+    }
+
+    flushParagraph();
+    const element = node as HTMLElement;
+    const tag = tagOf(node);
+
+    if (tag === 'div') {
+      writeBlocks(parent, element.childNodes);
+    } else if (/^h[1-6]$/.test(tag) || tag === 'p') {
+      const segments: InlineSegment[] = [];
+      element.childNodes.forEach((child) => collectInline(child, {}, segments));
+      const block = tag === 'p'
+        ? appendElement(parent, 'paragraph')
+        : appendElement(parent, 'heading', { level: parseInt(tag[1]) });
+      writeInline(block, segments);
+    } else if (tag === 'pre') {
+      const block = appendElement(parent, 'codeBlock');
+      const code = new Y.XmlText();
+      block.insert(0, [code]);
+      code.insert(0, element.text.replace(/\n$/, ''));
+    } else if (tag === 'hr') {
+      appendElement(parent, 'horizontalRule');
+    } else if (tag === 'ul' || tag === 'ol') {
+      const start = parseInt(element.getAttribute('start') || '1');
+      const list = appendElement(parent, BLOCK_TAGS[tag], tag === 'ol' ? { start: Number.isNaN(start) ? 1 : start } : {});
+      // Lists only hold list items; stray content gets an item of its own
+      element.childNodes
+        .filter((child) => child.nodeType === NodeType.ELEMENT_NODE || child.text.trim() !== '')
+        .forEach((child) => writeBlocks(appendElement(list, 'listItem'), tagOf(child) === 'li' ? child.childNodes : [child]));
+    } else {
+      writeBlocks(appendElement(parent, BLOCK_TAGS[tag]), element.childNodes);
+    }
+  });
+
+  flushParagraph();
+}
+
+/**
+ * Replace the contents of a fragment with document content (HTML or plain text)
+ * in a single transaction
+ */
+export function setXmlFragmentContent(fragment: Y.XmlFragment, content: string, origin: any = null) {
+  const apply = () => {
+    fragment.delete(0, fragment.length);
+    // <pre> is parsed as markup (not raw text) so code blocks keep only their text
+    writeBlocks(fragment, parse(toHtmlContent(content), { blockTextElements: { script: true, style: true } }).childNodes);
+  };
+
+  if (fragment.doc) {
+    fragment.doc.transact(apply, origin);
+  } else {
+    apply();
+  }
+}
+
+function escapeAttribute(value: any) {
+  return escapeHtml(String(value));
+}
+
+function xmlTextToHtml(text: Y.XmlText) {
+  return (text.toDelta() as { insert: any; attributes?: MarkSet }[])
+    .map(({ insert, attributes = {} }) => {
+      if (typeof insert !== 'string') {
+        return '';
+      }
+
+      let html = escapeHtml(insert);
+      [...MARK_ORDER].reverse().forEach((mark) => {
+        if (!attributes[mark]) {
+          return;
+        }
+        html = mark === 'link'
+          ? `<a href="${escapeAttribute(attributes.link.href || '')}">${html}</a>`
+          : `<${MARK_HTML[mark]}>${html}</${MARK_HTML[mark]}>`;
+      });
+      return html;
+    })
+    .join('');
+}
+
+function nodeToHtml(node: Y.XmlElement | Y.XmlText): string {
+  if (node instanceof Y.XmlText) {
+    return xmlTextToHtml(node);
+  }
+
+  const children = () => node.toArray().map((child) => nodeToHtml(child as Y.XmlElement | Y.XmlText)).join('');
+  const attrs = node.getAttributes() as Record<string, any>;
+
+  switch (node.nodeName) {
+    case 'paragraph':
+      return `<p>${children()}</p>`;
+    case 'heading': {
+      const level = Math.min(6, Math.max(1, parseInt(attrs.level) || 1));
+      return `<h${level}>${children()}</h${level}>`;
+    }
+    case 'blockquote':
+      return `<blockquote>${children()}</blockquote>`;
+    case 'bulletList':
+      return `<ul>${children()}</ul>`;
+    case 'orderedList':
+      return attrs.start && attrs.start !== 1 ? `<ol start="${escapeAttribute(attrs.start)}">${children()}</ol>` : `<ol>${children()}</ol>`;
+    case 'listItem':
+      return `<li>${children()}</li>`;
+    case 'codeBlock':
+      return `<pre><code>${escapeHtml(node.toArray().map((child) => (child instanceof Y.XmlText ? child.toString() : '')).join(''))}</code></pre>`;
+    case 'horizontalRule':
+      return '<hr>';
+    case 'hardBreak':
+      return '<br>';
+    case 'image':
+      return `<img${['src', 'alt', 'title'].filter((key) => attrs[key]).map((key) => ` ${key}="${escapeAttribute(attrs[key])}"`).join('')}>`;
+    default:
+      // Node types this server does not know keep their content
+      return children();
+  }
+}
+
+/**
+ * HTML for the contents of a fragment, in the form stored in Documents.content
+ */
+export function xmlFragmentToHtml(fragment: Y.XmlFragment): string {
+  return fragment.toArray().map((node) => nodeToHtml(node as Y.XmlElement | Y.XmlText)).join('');
+}